@@ -0,0 +1,43 @@
+'use client';
+
+import React from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { LOCALE_COOKIE, LOCALE_NAMES, LOCALES, localePath } from '../../lib/i18n';
+import type { Locale } from '../../lib/i18n';
+import { useI18n } from '../../lib/i18n/context';
+
+// 记住选择的语言一年，middleware 据此重定向不带语言的路径
+const COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+export default function LanguageSwitcher() {
+  const { locale, t } = useI18n();
+  const pathname = usePathname();
+  const router = useRouter();
+
+  const switchTo = (target: Locale) => {
+    if (target === locale) return;
+    document.cookie = `${LOCALE_COOKIE}=${target}; path=/; max-age=${COOKIE_MAX_AGE}; samesite=lax`;
+    // 保留已选机型等 URL 参数
+    router.push(`${localePath(target, pathname)}${window.location.search}`);
+  };
+
+  return (
+    <div className="absolute right-4 top-6 z-50 flex rounded-full border border-gray-600 bg-gray-800/90 p-0.5 text-xs" role="group" aria-label={t('common.switchLanguage')}>
+      {LOCALES.map(option => (
+        <button
+          key={option}
+          type="button"
+          lang={option}
+          onClick={() => switchTo(option)}
+          title={LOCALE_NAMES[option].full}
+          aria-pressed={option === locale}
+          className={`px-2.5 py-1.5 rounded-full font-medium transition-colors ${
+            option === locale ? 'bg-cyan-600 text-white' : 'text-gray-300 hover:text-white'
+          }`}
+        >
+          {LOCALE_NAMES[option].short}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,1187 @@
+'use client';
+
+import React, { useState, useEffect, useMemo } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import { Chart as ChartJS, CategoryScale, LinearScale, PointElement, LineElement, Title, Tooltip, Legend, LogarithmicScale, ScriptableContext, ScriptableLineSegmentContext, TooltipItem } from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { isReleasedBetween, isReleasedWithinMonths, loadDataset, sortByReleaseDate } from '../../lib/schema';
+import type { ChartData as PhoneChartData, ChartDataset as PhoneChartDataset, DerivedLensField, LensInfo, PhoneBrandData } from '../../lib/schema';
+import { buildCropZoomSegments, coversOptically, cropStartFocalLength, DEFAULT_SEGMENT_END_FOCAL_LENGTH, FOCAL_AXIS_MODES, focalLengthAtZoomMultiple, formatFocalAxisValue, formatZoomMultiple, mainCameraFocalLength, ZOOM_MULTIPLE_TICKS, zoomMultipleColumns } from '../../lib/optics';
+import type { FocalAxisMode } from '../../lib/optics';
+import { buildPhoneIdIndex, readSelection, writeSelection } from '../../lib/selection';
+import { describePhoneNames, matchesPhoneQuery, phoneSearchKeys } from '../../lib/phone-names';
+import { brandColor, getBrand } from '../../lib/brands';
+import { getSensor } from '../../lib/sensors';
+import { useI18n } from '../../lib/i18n/context';
+import type { Translator } from '../../lib/i18n';
+
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+  LogarithmicScale
+);
+
+/** 机型曲线的原始数据（不含点位），页面按它计算指标 */
+export type MetricSourceDataset = Omit<PhoneChartDataset, 'data'>;
+
+/** 镜头在某一等效焦距的测量值，y 为曲线上的指标值 */
+export interface MetricMeasurement<T> {
+  y: number;
+  measurement: T;
+}
+
+/** 实际点位的镜头；zoomEnd 表示连续光学变焦镜头的长焦端 */
+export interface MetricPointSource {
+  lens: LensInfo;
+  zoomEnd: boolean;
+}
+
+/** Y 轴设置，由页面按当前指标和已选机型的数值给出；min / max 不设置时由 Chart.js 自动计算 */
+export interface MetricYAxis {
+  /** 默认为线性刻度 */
+  type?: 'linear' | 'logarithmic';
+  title: string;
+  tickLabel: (value: number) => string;
+  min?: number;
+  max?: number;
+  reverse?: boolean;
+  /** 固定的刻度，不设置时按 stepSize 自动生成 */
+  ticks?: number[];
+  stepSize?: number;
+  /** 网格线加深的刻度，如档数的参照 0 */
+  baseline?: number;
+}
+
+/** 表格单元格：数值，以及显示在下方的补充说明（如相对参照的档数） */
+export interface MetricTableCell {
+  text: string;
+  detail?: string;
+  detailTitle?: string;
+}
+
+/** 表格图例：粗体、斜体、常规数值的含义，以及指标说明 */
+export interface MetricTableLegend {
+  native: string;
+  crop: string;
+  calculated: string;
+  notes: string[];
+  /** "-" 的含义，默认为无法计算 */
+  unavailable?: string;
+}
+
+/** 页面控件可用的数据：全部机型的原始曲线，以及已选机型 */
+export interface MetricChartSelection {
+  chart: PhoneChartData;
+  visible: ReadonlySet<string>;
+}
+
+export interface MetricChartPageProps<T> {
+  /** 已选机型的 localStorage key */
+  storageKey: string;
+  title: string;
+  subtitle: string;
+  tableTitle: string;
+  /** 显示在视图按钮下方，如指标选择 */
+  controls?: (selection: MetricChartSelection) => React.ReactNode;
+  /** 曲线点位的测量值，返回 null 时不画该点；需用 useCallback 保持引用稳定 */
+  measure: (lens: LensInfo, focalLength: number, dataset: MetricSourceDataset) => MetricMeasurement<T> | null;
+  /** 提示框中的指标说明，source 为实际点位的镜头 */
+  tooltipLines: (measurement: T, focalLength: number, source?: MetricPointSource) => string[];
+  yAxis: (values: number[]) => MetricYAxis;
+  /** 表格中机型在某一焦段的数值，无法计算时为 null；需用 useCallback 保持引用稳定 */
+  tableCell: (focalLength: number, dataset: MetricSourceDataset) => MetricTableCell | null;
+  /** 原生焦段的数值由该字段推算时，表格中标注为推算值 */
+  derivedField?: DerivedLensField;
+  legend: MetricTableLegend;
+  /** 显示 X 轴模式的切换：等效焦距、对角线 / 水平视角、相对主摄的变焦倍数 */
+  focalAxisModes?: boolean;
+}
+
+/** 点位所属的镜头，以及说明文字、裁切起点和裁切模式的输出分辨率 */
+interface MetricPointDetails extends LensInfo {
+  note: string;
+  cropStart: number;
+  cropModeResolution?: number | null;
+}
+
+type MetricPointType = 'actual' | 'optical_zoom' | 'crop_mode' | 'theoretical_segment_end' | 'generated_connector';
+
+// opticalZoomOf: 点位于连续光学变焦镜头的焦段内时，为该镜头的广角端焦距；originalFocalLength: 实际点位为镜头的广角端焦距，用于查找 lensDetails；
+// focalLength: 点位的等效焦距，变焦倍数模式下 x 为倍数
+interface MetricPoint<T> {
+  x: number;
+  y: number;
+  focalLength: number;
+  measurement: T;
+  details: MetricPointDetails;
+  originalFocalLength: number;
+  pointType: MetricPointType;
+  opticalZoomOf?: number;
+}
+
+type MetricDataset<T> = PhoneChartDataset<MetricPoint<T>>;
+
+// 表格的一列：等效焦距（按 X 轴模式显示），或变焦倍数（每台机型按各自的主摄换算为等效焦距）
+interface FocalColumn {
+  key: string;
+  label: string;
+  focalLengthFor: (dataset: MetricSourceDataset) => number | null;
+}
+
+// "最近 N 个月发布" 的可选项
+const RECENT_MONTH_OPTIONS = [3, 6, 12, 24];
+
+// 提示框标题显示机型名称的点位
+const LABELLED_POINT_TYPES: MetricPointType[] = ['actual', 'crop_mode'];
+
+/**
+ * 按裁切变焦模型生成每台机型的曲线点位，y 与 measurement 由页面的 measure 给出。
+ * 点位按焦距排列，上一颗镜头的裁切段终点在下一颗镜头的实际点位之前，两者之间画成竖直跳变
+ */
+function buildMetricDatasets<T>(chart: PhoneChartData, majorFocalLengths: number[], measure: MetricChartPageProps<T>['measure'], t: Translator): MetricDataset<T>[] {
+  return chart.datasets.map(dataset => {
+    const segmentPoints = majorFocalLengths.length > 0
+      ? buildCropZoomSegments(dataset.originalLenses || [], majorFocalLengths, DEFAULT_SEGMENT_END_FOCAL_LENGTH)
+      : [];
+
+    const data = segmentPoints.flatMap((point): MetricPoint<T>[] => {
+      const lens = point.lens;
+      const measured = measure(lens, point.focalLength, dataset);
+      if (!measured) return [];
+
+      const cropStart = cropStartFocalLength(lens, point.focalLength);
+      const base = { x: point.focalLength, y: measured.y, focalLength: point.focalLength, measurement: measured.measurement };
+
+      // 连续光学变焦镜头的两端都是实际点位，lensDetails 仍按广角端焦距查找
+      if (point.kind === 'native' || point.kind === 'optical_end') {
+        return [{
+          ...base,
+          details: { ...lens, note: t('note.native', { focal: point.focalLength }), cropStart },
+          originalFocalLength: lens.focalLength,
+          pointType: 'actual',
+          opticalZoomOf: lens.zoom ? lens.focalLength : undefined
+        }];
+      }
+
+      if (point.kind === 'optical') {
+        return [{
+          ...base,
+          details: { ...lens, note: t('note.opticalZoom', { focal: point.focalLength, from: lens.focalLength, to: lens.zoom?.maxFocalLength ?? lens.focalLength }), cropStart },
+          originalFocalLength: point.focalLength,
+          pointType: 'optical_zoom',
+          opticalZoomOf: lens.focalLength
+        }];
+      }
+
+      if (point.kind === 'crop_mode') {
+        return [{
+          ...base,
+          details: {
+            ...lens,
+            note: t('note.cropMode', { focal: point.focalLength, lens: lens.focalLength }),
+            cropStart,
+            cropModeResolution: lens.cropModes?.find(mode => mode.focalLength === point.focalLength)?.resolution ?? null
+          },
+          originalFocalLength: lens.focalLength,
+          pointType: 'crop_mode'
+        }];
+      }
+
+      const isSegmentEnd = point.kind === 'segment_end';
+      return [{
+        ...base,
+        details: { ...lens, note: t(isSegmentEnd ? 'note.segmentEnd' : 'note.connector', { focal: point.focalLength, lens: cropStart }), cropStart },
+        originalFocalLength: point.focalLength,
+        pointType: isSegmentEnd ? 'theoretical_segment_end' : 'generated_connector'
+      }];
+    });
+
+    // 折线连接，覆盖 JSON 中的曲线设置
+    return { ...dataset, data, tension: 0 };
+  });
+}
+
+/**
+ * 焦段曲线页（等效光圈、传感器大小、进光量等）的公共部分：数据加载、机型选择与筛选、图表和表格；
+ * 指标的计算、显示和 Y 轴由页面通过 props 给出
+ */
+export default function MetricChartPage<T>({ storageKey, title, subtitle, tableTitle, controls, measure, tooltipLines, yAxis, tableCell, derivedField, legend, focalAxisModes = false }: MetricChartPageProps<T>) {
+  const { t, href, brandName, lensName, releaseDate, phoneNameLabels } = useI18n();
+  const [phoneData, setPhoneData] = useState<PhoneBrandData>({});
+  const [sourceChartData, setSourceChartData] = useState<PhoneChartData>({ labels: [], datasets: [] });
+  const [visibleDatasets, setVisibleDatasets] = useState<Set<string>>(new Set());
+  const [viewMode, setViewMode] = useState<'chart' | 'table'>('chart');
+  const [showCropModes, setShowCropModes] = useState(true);
+  const [focalAxis, setFocalAxis] = useState<FocalAxisMode>('focalLength');
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [expandedBrands, setExpandedBrands] = useState<Set<string>>(new Set());
+  const [showFilters, setShowFilters] = useState(false);
+  const [selectedYears, setSelectedYears] = useState<Set<number>>(new Set());
+  const [selectedBrands, setSelectedBrands] = useState<Set<string>>(new Set());
+  const [recentMonths, setRecentMonths] = useState<number | null>(null);
+  const [releaseMonthFrom, setReleaseMonthFrom] = useState('');
+  const [releaseMonthTo, setReleaseMonthTo] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+
+  // 加载数据
+  useEffect(() => {
+    const loadData = async () => {
+      try {
+        // 加载并校验数据，格式错误时会指出具体机型和字段
+        const { phones: loadedPhoneData, chart: loadedChartData } = await loadDataset();
+        setPhoneData(loadedPhoneData);
+        setSourceChartData(loadedChartData);
+
+        // 默认显示每个品牌最新的3个机型
+        const defaultVisible = new Set<string>();
+        Object.values(loadedPhoneData).forEach(brandPhones => {
+          sortByReleaseDate(brandPhones).slice(0, 3).forEach(phone => defaultVisible.add(phone.id));
+        });
+
+        // 优先恢复链接或上次保存的选择
+        setVisibleDatasets(readSelection(storageKey, buildPhoneIdIndex(loadedPhoneData)) || defaultVisible);
+        setLoading(false);
+      } catch (error) {
+        console.error(`${t('common.loadFailed')}:`, error);
+        setLoadError(error instanceof Error ? error.message : String(error));
+        setLoading(false);
+      }
+    };
+
+    loadData();
+  }, [t, storageKey]);
+
+  // X 轴的标准焦段，来自 chart-enhanced.json 的 labels（如 "24mm"）
+  const majorFocalLengths = useMemo(
+    () => sourceChartData.labels.map(label => parseFloat(label)).filter(focal => Number.isFinite(focal)),
+    [sourceChartData.labels]
+  );
+
+  // 曲线点位随语言（说明文字）和页面的指标重新生成
+  const metricDatasets = useMemo(
+    () => buildMetricDatasets(sourceChartData, majorFocalLengths, measure, t),
+    [sourceChartData, majorFocalLengths, measure, t]
+  );
+
+  // 机型 id -> 基本信息、原始曲线，以及搜索用的名称（官方名称、别名、代号、地区版本）
+  const phonesById = useMemo(() => new Map(Object.values(phoneData).flat().map(phone => [phone.id, phone])), [phoneData]);
+  const sourceDatasetsById = useMemo(() => new Map(sourceChartData.datasets.map(dataset => [dataset.id, dataset])), [sourceChartData]);
+  const phoneSearchIndex = useMemo(() => new Map(
+    Object.entries(phoneData).flatMap(([brand, phones]) => phones.map(phone => [phone.id, phoneSearchKeys(brand, phone)] as const))
+  ), [phoneData]);
+
+  // 已选机型的曲线
+  const filteredDatasets = useMemo(
+    () => metricDatasets.filter(dataset => visibleDatasets.has(dataset.id)),
+    [metricDatasets, visibleDatasets]
+  );
+
+  // 变焦倍数模式下的曲线：x 换成相对该机型主摄的倍数，没有主摄的机型不画
+  const renderedDatasets = useMemo(() => {
+    if (focalAxis !== 'zoom') return filteredDatasets;
+    return filteredDatasets.map(dataset => {
+      const mainFocalLength = mainCameraFocalLength(dataset.originalLenses || []);
+      return { ...dataset, data: mainFocalLength ? dataset.data.map(point => ({ ...point, x: point.focalLength / mainFocalLength })) : [] };
+    });
+  }, [focalAxis, filteredDatasets]);
+
+  // X 轴范围：等效焦距与视角模式按标准焦段，变焦倍数模式按曲线的实际范围
+  const xAxisRange = useMemo(() => {
+    if (focalAxis !== 'zoom') {
+      return majorFocalLengths.length > 0
+        ? { min: Math.min(...majorFocalLengths) * 0.9, max: Math.max(...majorFocalLengths) * 1.05 }
+        : { min: 10, max: 220 };
+    }
+    const values = renderedDatasets.flatMap(dataset => dataset.data.map(point => point.x));
+    if (values.length === 0) return { min: 0.4, max: 10 };
+    return { min: Math.min(...values) * 0.9, max: Math.max(...values) * 1.05 };
+  }, [focalAxis, majorFocalLengths, renderedDatasets]);
+
+  // 提示框中的指标说明，数据来自点位的 measurement
+  const metricTooltipLines = (context: TooltipItem<'line'>, source?: MetricPointSource) => {
+    const point = context.raw as MetricPoint<T>;
+    return tooltipLines(point.measurement, point.focalLength, source);
+  };
+
+  // 提示框中 X 轴模式对应的一行：视角，或相对主摄的变焦倍数
+  const focalAxisTooltipLines = (context: TooltipItem<'line'>, focalLength: number) => {
+    if (focalAxis === 'focalLength') return [];
+    const mainFocalLength = mainCameraFocalLength((context.dataset as MetricDataset<T>).originalLenses || []);
+    if (focalAxis === 'zoom' && !mainFocalLength) return [];
+    return [t(`tooltip.${focalAxis}`, { value: formatFocalAxisValue(focalLength, focalAxis, mainFocalLength), main: mainFocalLength ?? '' })];
+  };
+
+  // 保存选择，并同步到 URL 便于分享
+  useEffect(() => {
+    if (loading || loadError) return;
+    writeSelection(storageKey, visibleDatasets);
+  }, [visibleDatasets, loading, loadError, storageKey]);
+
+  // Y 轴范围随已选机型的数值变化，由页面给出
+  const yAxisValues = useMemo(
+    () => renderedDatasets.flatMap(dataset => dataset.data.map(point => point.y)),
+    [renderedDatasets]
+  );
+  const yScale = yAxis(yAxisValues);
+
+  // 图表配置
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    datasets: {
+      line: {
+        segment: {
+          // 连续光学变焦镜头的焦段是光学覆盖而非裁切，画得更粗
+          borderWidth: (context: ScriptableLineSegmentContext) => {
+            const data = renderedDatasets[context.datasetIndex]?.data;
+            const p0 = data?.[context.p0DataIndex];
+            const p1 = data?.[context.p1DataIndex];
+            return p0?.opticalZoomOf !== undefined && p0.opticalZoomOf === p1?.opticalZoomOf ? 6 : undefined;
+          }
+        }
+      }
+    },
+    interaction: {
+      mode: 'point' as const,
+      intersect: false,
+      axis: 'xy' as const,
+    },
+    elements: {
+      line: {
+        tension: 0,
+      },
+      point: {
+        // 只画实际点位和传感器内裁切点位，裁切段和连接点不画
+        radius: (context: ScriptableContext<'line'>) => {
+          const pointType = (context.raw as MetricPoint<T> | undefined)?.pointType;
+          if (pointType === 'actual') return 3;
+          if (pointType === 'crop_mode') return showCropModes ? 4 : 0;
+          return 0;
+        },
+        hoverRadius: (context: ScriptableContext<'line'>) => {
+          const pointType = (context.raw as MetricPoint<T> | undefined)?.pointType;
+          if (pointType === 'actual') return 5;
+          if (pointType === 'crop_mode') return showCropModes ? 6 : 0;
+          return 0;
+        },
+        hitRadius: (context: ScriptableContext<'line'>) => {
+          const pointType = (context.raw as MetricPoint<T> | undefined)?.pointType;
+          return pointType === 'actual' || (pointType === 'crop_mode' && showCropModes) ? 10 : 0;
+        },
+        // 传感器内裁切用菱形，与原生镜头的圆点区分
+        pointStyle: (context: ScriptableContext<'line'>) => {
+          return (context.raw as MetricPoint<T> | undefined)?.pointType === 'crop_mode' ? 'rectRot' as const : 'circle' as const;
+        }
+      }
+    },
+    scales: {
+      x: {
+        type: 'logarithmic' as const,
+        min: xAxisRange.min,
+        max: xAxisRange.max,
+        title: {
+            display: true,
+            text: focalAxis === 'focalLength' ? t('chart.xAxis') : t(`chart.xAxis.${focalAxis}`),
+            color: '#999999',
+            font: { size: 12 }
+        },
+        grid: {
+          color: '#2a2a2a',
+          lineWidth: 1
+        },
+        ticks: {
+          color: '#999999',
+          font: {
+            size: 11
+          },
+          autoSkip: false,
+          // 变焦倍数模式的刻度是倍数，其他模式的刻度是标准焦段，按模式显示为焦距或视角
+          callback: (value: unknown) => (focalAxis === 'zoom' ? formatZoomMultiple(Number(value)) : formatFocalAxisValue(Number(value), focalAxis))
+        },
+        // 对数轴只在标准焦段（变焦倍数模式为标准倍数）处显示刻度
+        afterBuildTicks: (axis: { ticks: Array<{ value: number }>, min: number, max: number }) => {
+          axis.ticks = (focalAxis === 'zoom' ? ZOOM_MULTIPLE_TICKS : majorFocalLengths)
+            .filter(focal => focal >= axis.min && focal <= axis.max)
+            .sort((a, b) => a - b)
+            .map(focal => ({ value: focal }));
+        },
+        border: {
+          color: '#444444'
+        }
+      },
+      y: {
+        type: yScale.type ?? 'linear',
+        reverse: yScale.reverse ?? false,
+        title: {
+            display: true,
+            text: yScale.title,
+            color: '#999999',
+            font: { size: 12 }
+        },
+        min: yScale.min,
+        max: yScale.max,
+        ticks: {
+          color: '#999999',
+          font: {
+            size: 11
+          },
+          autoSkip: !yScale.ticks,
+          stepSize: yScale.stepSize,
+          callback: (value: unknown) => yScale.tickLabel(Number(value))
+        },
+        afterBuildTicks: (axis: { min: number; max: number; ticks: { value: number }[] }) => {
+          if (!yScale.ticks) return;
+          axis.ticks = yScale.ticks.filter(tick => tick >= axis.min && tick <= axis.max).map(tick => ({ value: tick }));
+        },
+        grid: {
+          color: (context: { tick?: { value: number } }) => (yScale.baseline !== undefined && context.tick?.value === yScale.baseline ? '#555555' : '#2a2a2a'),
+          lineWidth: 1
+        },
+        border: {
+          color: '#444444'
+        }
+      }
+    },
+    plugins: {
+      legend: {
+        display: false
+      },
+      tooltip: {
+        enabled: true,
+        callbacks: {
+          title: function(tooltipItems: TooltipItem<'line'>[]) {
+            // 实际点位显示机型名称（多条曲线在同一位置时全部列出），其他点位显示说明
+            const labelledItems = tooltipItems.filter(item => LABELLED_POINT_TYPES.includes((item.raw as MetricPoint<T>).pointType));
+            if (labelledItems.length > 0) return labelledItems.map(item => item.dataset.label || '').join(', ');
+            return tooltipItems.length > 0 ? (tooltipItems[0].raw as MetricPoint<T>).details.note : '';
+          },
+          afterTitle: function(tooltipItems: TooltipItem<'line'>[]) {
+            // 单台机型时显示其他名称
+            const labelledItems = tooltipItems.filter(item => LABELLED_POINT_TYPES.includes((item.raw as MetricPoint<T>).pointType));
+            const phoneIds = new Set(labelledItems.map(item => (item.dataset as MetricDataset<T>).id));
+            if (phoneIds.size !== 1) return [];
+            const phone = phonesById.get(Array.from(phoneIds)[0]);
+            return phone ? describePhoneNames(phone, phoneNameLabels) : [];
+          },
+          label: function(context: TooltipItem<'line'>) {
+            const point = context.raw as MetricPoint<T>;
+            const details = point.details;
+
+            if (point.pointType === 'crop_mode') {
+              const cropFactor = point.focalLength / details.cropStart;
+              return [
+                ` ${context.dataset.label}`,
+                t('tooltip.cropMode', { lens: `${lensName(details)} `, factor: Number(cropFactor.toFixed(1)) }),
+                t('tooltip.focalLength', { value: point.focalLength }),
+                ...focalAxisTooltipLines(context, point.focalLength),
+                ...(details.cropModeResolution ? [t('tooltip.cropResolution', { value: details.cropModeResolution })] : []),
+                ...metricTooltipLines(context)
+              ];
+            }
+
+            if (point.pointType !== 'actual') return metricTooltipLines(context);
+
+            const label: string[] = [];
+
+            // 同一位置有多台机型的实际点位时标出机型名称
+            const allTooltipItems = context.chart.tooltip?.dataPoints ?? [context];
+            if (allTooltipItems.filter(item => (item.raw as MetricPoint<T>).pointType === 'actual').length > 1) {
+              label.push(` ${context.dataset.label}`);
+            }
+
+            const dataset = context.dataset as MetricDataset<T>;
+            const lensDetail = dataset.lensDetails?.[point.originalFocalLength.toString()];
+
+            label.push(t('tooltip.lens', { name: lensName(details) }));
+            if (lensDetail?.sensor) label.push(t('tooltip.sensor', { sensor: lensDetail.sensor }));
+            if (lensDetail?.sensorSize) label.push(t('tooltip.sensorSize', { size: lensDetail.sensorSize }));
+
+            const sensorInfo = getSensor(lensDetail?.sensorId);
+            if (sensorInfo) {
+              label.push(t('tooltip.sensorSpec', { width: sensorInfo.widthMm, height: sensorInfo.heightMm, pitch: sensorInfo.pixelPitchUm, resolution: sensorInfo.resolutionMp }));
+            }
+
+            label.push(t('tooltip.focalLength', { value: point.focalLength }));
+            label.push(...focalAxisTooltipLines(context, point.focalLength));
+
+            // 连续光学变焦镜头的长焦端
+            const zoomEnd = Boolean(details.zoom) && point.focalLength > details.focalLength;
+            if (details.zoom) {
+              label.push(t('tooltip.opticalZoom', { from: details.focalLength, to: details.zoom.maxFocalLength }));
+            }
+
+            const physicalAperture = zoomEnd ? details.zoom?.maxPhysicalApertureValue : details.physicalApertureValue;
+            if (physicalAperture) {
+              label.push(t('tooltip.lensAperture', { value: physicalAperture }));
+            }
+
+            label.push(...metricTooltipLines(context, { lens: details, zoomEnd }));
+            return label;
+          }
+        }
+      }
+    }
+  };
+
+  // 切换机型显示
+  const toggleDataset = (phoneId: string) => {
+    const newVisible = new Set(visibleDatasets);
+    if (newVisible.has(phoneId)) {
+      newVisible.delete(phoneId);
+    } else {
+      newVisible.add(phoneId);
+    }
+    setVisibleDatasets(newVisible);
+  };
+
+  // 全部隐藏
+  const hideAll = () => {
+    setVisibleDatasets(new Set());
+  };
+
+  // 全部显示
+  const showAll = () => {
+    setVisibleDatasets(new Set(sourceChartData.datasets.map(dataset => dataset.id)));
+  };
+
+  // 获取所有可用年份
+  const getAvailableYears = () => {
+    const years = new Set<number>();
+    Object.values(phoneData).flat().forEach(phone => {
+      if (phone.releaseYear) {
+        years.add(phone.releaseYear);
+      }
+    });
+    return Array.from(years).sort((a, b) => b - a);
+  };
+
+  // 获取所有可用品牌
+  const getAvailableBrands = () => {
+    return Object.keys(phoneData).filter(brand => phoneData[brand].length > 0);
+  };
+
+  // 切换年份选择
+  const toggleYear = (year: number) => {
+    const newYears = new Set(selectedYears);
+    if (newYears.has(year)) {
+      newYears.delete(year);
+    } else {
+      newYears.add(year);
+    }
+    setSelectedYears(newYears);
+  };
+
+  // 切换品牌选择
+  const toggleBrand = (brand: string) => {
+    const newBrands = new Set(selectedBrands);
+    if (newBrands.has(brand)) {
+      newBrands.delete(brand);
+    } else {
+      newBrands.add(brand);
+    }
+    setSelectedBrands(newBrands);
+  };
+
+  // 应用筛选
+  const applyFilters = () => {
+    const filteredPhoneIds = new Set<string>();
+
+    sourceChartData.datasets.forEach(dataset => {
+      const phone = phonesById.get(dataset.id);
+      if (phone) {
+        const yearMatch = selectedYears.size === 0 || (phone.releaseYear !== null && selectedYears.has(phone.releaseYear));
+        const brandMatch = selectedBrands.size === 0 || selectedBrands.has(dataset.brand);
+        const recentMatch = recentMonths === null || isReleasedWithinMonths(phone.releaseDateIso, recentMonths);
+        const monthMatch = isReleasedBetween(phone.releaseDateIso, releaseMonthFrom || null, releaseMonthTo || null);
+
+        if (yearMatch && brandMatch && recentMatch && monthMatch) {
+          filteredPhoneIds.add(dataset.id);
+        }
+      }
+    });
+
+    setVisibleDatasets(filteredPhoneIds);
+    setShowFilters(false);
+  };
+
+  // 清除筛选
+  const clearFilters = () => {
+    setSelectedYears(new Set());
+    setSelectedBrands(new Set());
+    setRecentMonths(null);
+    setReleaseMonthFrom('');
+    setReleaseMonthTo('');
+  };
+
+  // 已启用的筛选条件数
+  const activeFilterCount = selectedYears.size + selectedBrands.size + (recentMonths !== null ? 1 : 0) + (releaseMonthFrom || releaseMonthTo ? 1 : 0);
+
+  // 切换品牌展开状态
+  const toggleBrandExpansion = (brand: string) => {
+    const newExpanded = new Set(expandedBrands);
+    if (newExpanded.has(brand)) {
+      newExpanded.delete(brand);
+    } else {
+      newExpanded.add(brand);
+    }
+    setExpandedBrands(newExpanded);
+  };
+
+  // 获取品牌的机型列表，按发布日期从新到旧
+  const getBrandPhones = (brand: string) => {
+    const sortedPhones = sortByReleaseDate(phoneData[brand] || []);
+
+    // 搜索时显示所有匹配的机型
+    if (searchQuery.trim()) {
+      return sortedPhones.filter(phone => matchesPhoneQuery(phoneSearchIndex.get(phone.id) || [], searchQuery));
+    }
+
+    // 如果品牌未展开，只显示前4个
+    if (!expandedBrands.has(brand)) {
+      return sortedPhones.slice(0, 4);
+    }
+
+    return sortedPhones;
+  };
+
+  // 表格的焦段：标准焦段 + 已选机型的原生焦段
+  const tableFocalLengths = useMemo(() => {
+    const nativeFocals = new Set<number>();
+    filteredDatasets.forEach(dataset => {
+      (dataset.originalLenses || []).forEach(lens => {
+        nativeFocals.add(lens.focalLength);
+        if (lens.zoom) nativeFocals.add(lens.zoom.maxFocalLength);
+        if (showCropModes) lens.cropModes?.forEach(mode => nativeFocals.add(mode.focalLength));
+      });
+    });
+    return Array.from(new Set([...majorFocalLengths, ...Array.from(nativeFocals)])).sort((a, b) => a - b);
+  }, [filteredDatasets, majorFocalLengths, showCropModes]);
+
+  // 表格的列：变焦倍数模式为标准倍数与已选机型的原生焦段倍数，其他模式为所有焦段
+  const focalColumns = useMemo<FocalColumn[]>(() => {
+    if (focalAxis !== 'zoom') {
+      return tableFocalLengths.map(focal => ({ key: `${focal}mm`, label: formatFocalAxisValue(focal, focalAxis), focalLengthFor: () => focal }));
+    }
+    return zoomMultipleColumns(filteredDatasets.map(dataset => dataset.originalLenses || []), showCropModes).map(multiple => ({
+      key: `${multiple}x`,
+      label: formatZoomMultiple(multiple),
+      focalLengthFor: dataset => {
+        const mainFocalLength = mainCameraFocalLength(dataset.originalLenses || []);
+        return mainFocalLength ? focalLengthAtZoomMultiple(multiple, mainFocalLength, dataset.originalLenses || [], showCropModes) : null;
+      }
+    }));
+  }, [focalAxis, tableFocalLengths, filteredDatasets, showCropModes]);
+
+  // 表格数据：每台已选机型在各列的等效焦距与数值，变焦倍数模式下没有主摄的机型为 null
+  const tableRows = useMemo(
+    () => filteredDatasets.map(dataset => ({
+      dataset,
+      cells: focalColumns.map(column => {
+        const focal = column.focalLengthFor(dataset);
+        return { focal, cell: focal !== null ? tableCell(focal, dataset) : null };
+      })
+    })),
+    [filteredDatasets, focalColumns, tableCell]
+  );
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <div className="text-white text-xl">{t('common.loading')}</div>
+      </div>
+    );
+  }
+
+  if (loadError) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center px-4">
+        <div className="max-w-2xl w-full text-center">
+          <div className="text-white text-xl mb-4">{t('common.loadFailed')}</div>
+          <pre className="text-left text-xs text-red-400 whitespace-pre-wrap bg-gray-900 rounded-lg p-4 border border-gray-800">{loadError}</pre>
+        </div>
+      </div>
+    );
+  }
+
+  // 点位自带 x 坐标，不需要 labels
+  const chartDataForRender = {
+    datasets: renderedDatasets
+  };
+
+  return (
+    <div className="min-h-screen bg-black text-white flex flex-col relative overflow-hidden">
+      {/* Background Pattern */}
+      <div className="absolute inset-0 opacity-5 -z-10">
+        <div className="absolute inset-0" style={{
+          backgroundImage: `repeating-linear-gradient(45deg, transparent, transparent 35px, rgba(255,255,255,0.1) 35px, rgba(255,255,255,0.1) 70px)`,
+        }}></div>
+      </div>
+      {/* Top Navigation / Header Area */}
+      <header className="relative z-20">
+        <div className="container mx-auto px-4 py-6">
+          {/* Back Button */}
+          <div className="absolute left-4 top-6">
+            <Link 
+              href={href('/')}
+              className="w-10 h-10 rounded-full bg-gray-800 hover:bg-gray-700 transition-colors flex items-center justify-center"
+              aria-label={t('common.back')}
+            >
+              <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 19l-7-7 7-7"></path>
+              </svg>
+            </Link>
+          </div>
+
+          {/* Center: Titles */}
+          <div className="text-center px-12">
+            <h1 className="text-2xl sm:text-3xl md:text-4xl font-bold text-white mb-2">{title}</h1>
+            <p className="text-xs sm:text-sm text-gray-400 leading-relaxed">{subtitle}</p>
+          </div>
+
+          {/* View Mode Buttons */}
+          <div className="flex flex-col sm:flex-row justify-center gap-3 mt-6">
+            <button
+              onClick={() => setViewMode('chart')}
+              className={`px-6 py-2 rounded-full text-sm font-medium transition-colors border ${
+                viewMode === 'chart'
+                  ? 'bg-cyan-500 text-white border-cyan-500'
+                  : 'bg-transparent text-cyan-400 border-cyan-400 hover:bg-cyan-500/10'
+              }`}
+            >
+              {t('chart.viewChart')}
+            </button>
+            <button
+              onClick={() => setViewMode('table')}
+              className={`px-6 py-2 rounded-full text-sm font-medium transition-colors border ${
+                viewMode === 'table'
+                  ? 'bg-cyan-500 text-white border-cyan-500'
+                  : 'bg-transparent text-cyan-400 border-cyan-400 hover:bg-cyan-500/10'
+              }`}
+            >
+              {t('chart.viewTable')}
+            </button>
+            <button
+              onClick={() => setShowCropModes(!showCropModes)}
+              aria-pressed={showCropModes}
+              title={t('chart.cropModes.hint')}
+              className={`px-6 py-2 rounded-full text-sm font-medium transition-colors border ${
+                showCropModes
+                  ? 'bg-gray-700 text-white border-gray-500'
+                  : 'bg-transparent text-gray-400 border-gray-600 hover:bg-gray-700/40'
+              }`}
+            >
+              {showCropModes ? t('chart.cropModes.hide') : t('chart.cropModes.show')}
+            </button>
+          </div>
+          {focalAxisModes && (
+            <div className="flex flex-wrap justify-center items-center gap-2 mt-3" role="group" aria-label={t('chart.focalAxis.label')}>
+              <span className="text-xs text-gray-400">{t('chart.focalAxis.label')}</span>
+              {FOCAL_AXIS_MODES.map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setFocalAxis(mode)}
+                  aria-pressed={focalAxis === mode}
+                  className={`px-3 py-1 rounded-full text-xs font-medium transition-colors border ${
+                    focalAxis === mode
+                      ? 'bg-gray-700 text-white border-gray-500'
+                      : 'bg-transparent text-gray-400 border-gray-600 hover:bg-gray-700/40'
+                  }`}
+                >
+                  {t(`chart.focalAxis.${mode}`)}
+                </button>
+              ))}
+            </div>
+          )}
+          {controls?.({ chart: sourceChartData, visible: visibleDatasets })}
+        </div>
+      </header>
+
+      {/* Main Content Area */}
+      <main className="flex-grow container mx-auto px-4 sm:px-6 py-6 relative z-10">
+        <>
+          {/* Chart Area / Table Area */}
+          <section className="mb-8 animate-fade-in">
+            {viewMode === 'chart' ? (
+              <div className="bg-gray-900/50 backdrop-blur-sm rounded-xl p-6 border border-gray-800 animate-scale-in">
+                <div className="h-[60vh] sm:h-[65vh] md:h-[70vh]">
+                  {majorFocalLengths.length > 0 ? (
+                    <Line data={chartDataForRender} options={chartOptions} />
+                  ) : (
+                    <div className="text-white text-center flex items-center justify-center h-full">
+                      <div className="text-lg">{t('chart.initializing')}</div>
+                    </div>
+                  )}
+                </div>
+              </div>
+            ) : (
+              // 指标数据表格
+              <div className="bg-gray-900 rounded-lg p-4 sm:p-6 animate-scale-in">
+                <h3 className="text-xl font-semibold mb-4 text-white">{tableTitle}</h3>
+                {tableRows.length > 0 ? (
+                  <div className="relative">
+                    {/* 滚动提示 */}
+                    <div className="flex items-center justify-between mb-2">
+                      <div className="text-xs text-gray-400">
+                        <span className="hidden sm:inline">{t('table.scrollHint')}</span>
+                        <span className="sm:hidden">{t('table.swipeHint')}</span>
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {t('table.focalCount', { count: focalColumns.length })}
+                      </div>
+                    </div>
+                    
+                    {/* 表格容器 */}
+                    <div className="overflow-x-auto scrollbar-custom touch-pan-x" style={{ WebkitOverflowScrolling: 'touch' }}>
+                      <table className="w-full text-sm text-white border-collapse min-w-max">
+                        <thead>
+                          <tr>
+                            <th className="sticky left-0 bg-gray-800 border border-gray-600 px-3 py-2 text-left font-medium z-20 shadow-lg min-w-[150px]">
+                              {t('table.phone')}
+                            </th>
+                            {focalColumns.map(column => (
+                              <th key={column.key} className="border border-gray-600 px-3 py-2 text-center font-medium min-w-[80px] whitespace-nowrap">
+                                {column.label}
+                                {(focalAxis === 'diagonalFov' || focalAxis === 'horizontalFov') && (
+                                  <div className="text-xs font-normal text-gray-400">{column.key}</div>
+                                )}
+                              </th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {tableRows.map(({ dataset, cells }) => {
+                            const phoneInfo = phonesById.get(dataset.id);
+                            const otherNames = phoneInfo ? describePhoneNames(phoneInfo, phoneNameLabels) : [];
+                            const mainFocalLength = mainCameraFocalLength(dataset.originalLenses || []);
+
+                            return (
+                              <tr key={dataset.id} className="hover:bg-gray-800/50">
+                                <td 
+                                  className="sticky left-0 bg-gray-800 border border-gray-600 px-3 py-2 font-medium z-10 shadow-lg min-w-[150px]"
+                                  style={{ color: dataset.borderColor || '#ffffff' }}
+                                >
+                                  <div className="truncate" title={[dataset.label, ...otherNames].join('\n')}>
+                                    {dataset.label}
+                                  </div>
+                                  {phoneInfo?.names?.en && phoneInfo.names.en !== dataset.label && (
+                                    <div className="truncate text-xs font-normal text-gray-400">{phoneInfo.names.en}</div>
+                                  )}
+                                  {focalAxis === 'zoom' && mainFocalLength && (
+                                    <div className="truncate text-xs font-normal text-gray-400">{t('table.zoomMain', { focal: mainFocalLength })}</div>
+                                  )}
+                                </td>
+                                {cells.map(({ focal, cell }, index) => {
+                                  // 变焦倍数模式下没有主摄的机型 focal 为 null，单元格显示 "-"
+                                  const nativeLens = focal !== null ? dataset.originalLenses?.find(l => coversOptically(l, focal)) : undefined;
+                                  const isOpticalZoom = Boolean(nativeLens?.zoom) && focal !== nativeLens?.focalLength;
+                                  const cropMode = showCropModes ? dataset.originalLenses?.flatMap(l => l.cropModes || []).find(mode => mode.focalLength === focal) : undefined;
+                                  const isDerived = derivedField !== undefined && Boolean(nativeLens?.derived?.includes(derivedField));
+
+                                  return (
+                                    <td key={focalColumns[index].key} className="border border-gray-600 px-3 py-2 text-center min-w-[80px] whitespace-nowrap">
+                                      {cell ? (
+                                        <>
+                                          <span
+                                            className={nativeLens ? 'font-bold' : cropMode ? 'italic' : 'opacity-75'}
+                                            title={isOpticalZoom ? t('table.cell.opticalZoom') : nativeLens ? (isDerived ? t('table.cell.nativeDerived') : t('table.cell.native')) : cropMode ? (cropMode.resolution ? t('table.cell.cropModeResolution', { resolution: cropMode.resolution }) : t('table.cell.cropMode')) : t('table.cell.calculated')}
+                                          >
+                                            {cell.text}
+                                          </span>
+                                          {cell.detail && (
+                                            <div className="text-xs text-gray-400" title={cell.detailTitle}>{cell.detail}</div>
+                                          )}
+                                        </>
+                                      ) : (
+                                        <span className="text-gray-500">-</span>
+                                      )}
+                                    </td>
+                                  );
+                                })}
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                      </table>
+                    </div>
+                    <div className="mt-4 text-xs text-gray-400">
+                      <p>• <strong>{t('table.legend.bold')}</strong>{t('table.legend.separator')}{legend.native}</p>
+                      <p>• <em>{t('table.legend.italic')}</em>{t('table.legend.separator')}{legend.crop}</p>
+                      <p>• {t('table.legend.regular')}{t('table.legend.separator')}{legend.calculated}</p>
+                      {legend.notes.map(note => (
+                        <p key={note}>• {note}</p>
+                      ))}
+                      <p>• &quot;-&quot;{t('table.legend.separator')}{legend.unavailable ?? t('table.legend.unavailable')}</p>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-gray-400">{t('chart.noData')}</p>
+                )}
+              </div>
+            )}
+          </section>
+
+          {/* Chart Control Buttons */}
+          <section className="mb-8 text-center relative z-10 animate-fade-in">
+            <div className="flex flex-col sm:flex-row justify-center items-center gap-4">
+              <div className="flex gap-4">
+                <button
+                  type="button"
+                  onClick={hideAll}
+                  className={`px-6 py-2.5 rounded-full text-sm font-medium transition-all duration-300 border focus:outline-none focus:ring-2 cursor-pointer transform hover:scale-105 ${
+                    visibleDatasets.size === 0
+                      ? 'bg-cyan-600 text-white border-cyan-600 focus:ring-cyan-500'
+                      : 'bg-gray-800 hover:bg-gray-700 text-white border-gray-600 focus:ring-gray-500'
+                  }`}
+                >
+                  {t('chart.hideAll')}
+                </button>
+                <button
+                  type="button"
+                  onClick={showAll} 
+                  className={`px-6 py-2.5 rounded-full text-sm font-medium transition-all duration-300 border focus:outline-none focus:ring-2 cursor-pointer transform hover:scale-105 ${
+                    visibleDatasets.size === sourceChartData.datasets.length && sourceChartData.datasets.length > 0
+                      ? 'bg-cyan-600 text-white border-cyan-600 focus:ring-cyan-500'
+                      : 'bg-gray-800 hover:bg-gray-700 text-white border-gray-600 focus:ring-gray-500'
+                  }`}
+                >
+                  {t('chart.showAll')}
+                </button>
+              </div>
+              
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => setShowFilters(!showFilters)}
+                  className={`px-6 py-2.5 rounded-full text-sm font-medium transition-all duration-300 border focus:outline-none focus:ring-2 focus:ring-cyan-500 cursor-pointer transform hover:scale-105 ${
+                    showFilters || activeFilterCount > 0
+                      ? 'bg-cyan-600 text-white border-cyan-600' 
+                      : 'bg-gray-800 hover:bg-gray-700 text-white border-gray-600'
+                  }`}
+                >
+                  {t('filter.button')}
+                  {activeFilterCount > 0 && (
+                    <span className="ml-1 bg-white text-cyan-600 rounded-full px-1.5 py-0.5 text-xs font-bold">
+                      {activeFilterCount}
+                    </span>
+                  )}
+                </button>
+                {activeFilterCount > 0 && (
+                  <button
+                    type="button"
+                    onClick={clearFilters}
+                    className="bg-red-600 hover:bg-red-700 text-white px-4 py-2.5 rounded-full text-sm font-medium transition-all duration-300 border border-red-600 focus:outline-none focus:ring-2 focus:ring-red-500 cursor-pointer transform hover:scale-105 animate-scale-in"
+                  >
+                    {t('filter.clear')}
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {/* 筛选面板 */}
+            {showFilters && (
+              <div className="mt-6 bg-gray-900/80 backdrop-blur-sm rounded-xl p-6 border border-gray-700 max-w-4xl mx-auto animate-slide-down">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  {/* 年份筛选 */}
+                  <div>
+                    <h4 className="text-lg font-medium text-white mb-3">{t('filter.years')}</h4>
+                    <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                      {getAvailableYears().map(year => (
+                        <button
+                          key={year}
+                          type="button"
+                          onClick={() => toggleYear(year)}
+                          className={`px-3 py-2 rounded-lg text-sm font-medium transition-all duration-200 border transform hover:scale-105 ${
+                            selectedYears.has(year)
+                              ? 'bg-cyan-600 text-white border-cyan-600 shadow-lg'
+                              : 'bg-gray-800 hover:bg-gray-700 text-gray-300 border-gray-600'
+                          }`}
+                        >
+                          {year}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  {/* 品牌筛选 */}
+                  <div>
+                    <h4 className="text-lg font-medium text-white mb-3">{t('filter.brands')}</h4>
+                    <div className="grid grid-cols-2 gap-2">
+                      {getAvailableBrands().map(brand => (
+                        <button
+                          key={brand}
+                          type="button"
+                          onClick={() => toggleBrand(brand)}
+                          className={`px-3 py-2 rounded-lg text-sm font-medium transition-all duration-200 border transform hover:scale-105 ${
+                            selectedBrands.has(brand)
+                              ? 'bg-cyan-600 text-white border-cyan-600 shadow-lg'
+                              : 'bg-gray-800 hover:bg-gray-700 text-gray-300 border-gray-600'
+                          }`}
+                        >
+                          {brandName(brand)}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  {/* 发布时间筛选（按月） */}
+                  <div className="md:col-span-2">
+                    <h4 className="text-lg font-medium text-white mb-3">{t('filter.releaseTime')}</h4>
+                    <div className="flex flex-wrap items-center gap-2">
+                      {RECENT_MONTH_OPTIONS.map(months => (
+                        <button
+                          key={months}
+                          type="button"
+                          onClick={() => setRecentMonths(recentMonths === months ? null : months)}
+                          className={`px-3 py-2 rounded-lg text-sm font-medium transition-all duration-200 border transform hover:scale-105 ${
+                            recentMonths === months
+                              ? 'bg-cyan-600 text-white border-cyan-600 shadow-lg'
+                              : 'bg-gray-800 hover:bg-gray-700 text-gray-300 border-gray-600'
+                          }`}
+                        >
+                          {t('filter.recentMonths', { months })}
+                        </button>
+                      ))}
+                      <div className="flex items-center gap-2 text-sm text-gray-300">
+                        <input
+                          type="month"
+                          value={releaseMonthFrom}
+                          onChange={event => setReleaseMonthFrom(event.target.value)}
+                          aria-label={t('filter.monthFrom')}
+                          className="bg-gray-800 border border-gray-600 rounded-lg px-2 py-1.5 text-white"
+                        />
+                        <span>{t('filter.rangeSeparator')}</span>
+                        <input
+                          type="month"
+                          value={releaseMonthTo}
+                          onChange={event => setReleaseMonthTo(event.target.value)}
+                          aria-label={t('filter.monthTo')}
+                          className="bg-gray-800 border border-gray-600 rounded-lg px-2 py-1.5 text-white"
+                        />
+                      </div>
+                    </div>
+                  </div>
+                </div>
+
+                {/* 应用按钮 */}
+                <div className="flex justify-center gap-4 mt-6">
+                  <button
+                    type="button"
+                    onClick={applyFilters}
+                    className="bg-cyan-600 hover:bg-cyan-700 text-white px-8 py-2.5 rounded-full text-sm font-medium transition-all duration-200 border border-cyan-600 focus:outline-none focus:ring-2 focus:ring-cyan-500 transform hover:scale-105"
+                  >
+                    {t('filter.apply')}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setShowFilters(false)}
+                    className="bg-gray-700 hover:bg-gray-600 text-white px-6 py-2.5 rounded-full text-sm font-medium transition-all duration-200 border border-gray-600 focus:outline-none focus:ring-2 focus:ring-gray-500 transform hover:scale-105"
+                  >
+                    {t('filter.cancel')}
+                  </button>
+                </div>
+              </div>
+            )}
+          </section>
+
+          {/* Phone Selection Area (Pills) */}
+          <section>
+            <div className="mb-6 max-w-md mx-auto relative">
+              <input
+                type="search"
+                value={searchQuery}
+                onChange={event => setSearchQuery(event.target.value)}
+                placeholder={t('search.placeholder')}
+                aria-label={t('search.label')}
+                className="w-full bg-gray-800 border border-gray-600 rounded-full px-4 py-2 text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+              />
+            </div>
+            {searchQuery.trim() && Object.keys(phoneData).every(brand => getBrandPhones(brand).length === 0) && (
+              <div className="text-center text-gray-400 text-sm mb-8">{t('search.noResults', { query: searchQuery.trim() })}</div>
+            )}
+            {Object.keys(phoneData).map(brand => {
+              const brandPhones = getBrandPhones(brand);
+              if (brandPhones.length === 0) return null;
+
+              const allBrandPhones = phoneData[brand] || [];
+              const sortedAllPhones = sortByReleaseDate(allBrandPhones);
+              const hasMorePhones = sortedAllPhones.length > 4 && !searchQuery.trim();
+              const isExpanded = expandedBrands.has(brand);
+
+              return (
+                <div key={brand} className="mb-8 animate-fade-in">
+                  <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-lg font-medium text-white flex items-center gap-2">
+                      {getBrand(brand)?.logo && (
+                        <Image src={getBrand(brand)?.logo as string} alt="" width={20} height={20} className="w-5 h-5 object-contain" />
+                      )}
+                      {brandName(brand)}
+                    </h3>
+                    {hasMorePhones && (
+                      <button
+                        onClick={() => toggleBrandExpansion(brand)}
+                        className="text-cyan-400 hover:text-cyan-300 text-sm font-medium transition-all duration-200 flex items-center gap-1 transform hover:scale-105"
+                      >
+                        {isExpanded ? t('brand.collapse') : t('brand.expand', { count: sortedAllPhones.length - 4 })}
+                        <svg 
+                          className={`w-4 h-4 transition-transform ${isExpanded ? 'rotate-180' : ''}`} 
+                          fill="none" 
+                          stroke="currentColor" 
+                          viewBox="0 0 24 24"
+                        >
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7"></path>
+                        </svg>
+                      </button>
+                    )}
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-3">
+                    {brandPhones.map(phone => {
+                      const isVisible = visibleDatasets.has(phone.id);
+                      // 镜头覆盖的焦段，如 "14mm - 100mm"
+                      const focalLengths = (sourceDatasetsById.get(phone.id)?.originalLenses || []).map(l => l.focalLength).sort((a, b) => a - b);
+                      const focalRange = focalLengths.length === 0
+                        ? 'N/A'
+                        : focalLengths.length === 1
+                          ? `${focalLengths[0]}mm`
+                          : `${focalLengths[0]}mm - ${focalLengths[focalLengths.length - 1]}mm`;
+
+                      return (
+                        <button
+                          key={phone.id}
+                          title={[phone.name, ...describePhoneNames(phone, phoneNameLabels)].join('\n')}
+                          onClick={() => toggleDataset(phone.id)}
+                          className={`w-full px-3 sm:px-4 py-2 sm:py-2.5 rounded-full text-xs sm:text-sm font-medium transition-all duration-300 ease-in-out hover:scale-105 focus:outline-none focus:ring-2 focus:ring-opacity-50 shadow-lg hover:shadow-xl border animate-scale-in
+                            ${isVisible 
+                              ? 'text-white shadow-lg'
+                              : 'bg-gray-800/80 text-gray-300 hover:bg-gray-700/80 border-gray-600 hover:border-gray-500'
+                            }`}
+                          style={{
+                            backgroundColor: isVisible 
+                              ? brandColor(brand)
+                              : undefined,
+                            borderColor: isVisible 
+                              ? brandColor(brand) 
+                              : undefined,
+                          }}
+                        >
+                          <div className="font-semibold truncate">{phone.name}</div>
+                          <div className="text-xs opacity-90 mt-0.5 truncate">{releaseDate(phone)} | {focalRange}</div>
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              );
+            })}
+          </section>
+        </>
+      </main>
+    </div>
+  );
+}
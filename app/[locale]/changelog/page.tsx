@@ -0,0 +1,175 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { LENS_ROLE_NAMES, LENS_ROLES, loadChangelog } from '../../../lib/schema';
+import type { ChangeValue, ChangelogEntry, FieldChange, LensChange, LensRole, PhoneChange } from '../../../lib/schema';
+import { brandColor } from '../../../lib/brands';
+import { hasMessage } from '../../../lib/i18n';
+import { useI18n } from '../../../lib/i18n/context';
+
+// 字段的单位，名称见文案 changelog.field.*
+const FIELD_FORMATS: { [field: string]: (value: number) => string } = {
+  focalLength: value => `${value}mm`,
+  aperture: value => `F${value}`,
+  physicalApertureValue: value => `f/${value}`,
+  conversionFactor: value => value.toFixed(2),
+  physicalFocalLength: value => `${value}mm`,
+  maxFocalLength: value => `${value}mm`,
+  maxAperture: value => `F${value}`,
+  maxPhysicalApertureValue: value => `f/${value}`
+};
+
+const KIND_STYLES = {
+  added: 'bg-green-600/20 text-green-400 border-green-600/50',
+  removed: 'bg-red-600/20 text-red-400 border-red-600/50',
+  changed: 'bg-cyan-600/20 text-cyan-400 border-cyan-600/50'
+};
+
+function useFormatValue() {
+  const { lensName } = useI18n();
+  return (field: string, value: ChangeValue): string => {
+    if (value === null || value === '') return '—';
+    if (field === 'role') return LENS_ROLES.includes(value as LensRole) ? lensName({ role: value as LensRole }) : String(value);
+    const format = FIELD_FORMATS[field];
+    return typeof value === 'number' && format ? format(value) : String(value);
+  };
+}
+
+function FieldChangeRow({ change, prefix }: { change: FieldChange; prefix?: string }) {
+  const { t } = useI18n();
+  const formatValue = useFormatValue();
+  const fieldKey = `changelog.field.${change.field}`;
+  const fieldName = hasMessage(fieldKey) ? t(fieldKey) : change.field;
+  return (
+    <li className="text-sm text-gray-300">
+      <span className="text-gray-400">{prefix}{fieldName}{t('changelog.fieldSeparator')}</span>
+      <span className="line-through text-gray-500">{formatValue(change.field, change.from)}</span>
+      <span className="mx-2 text-gray-500">→</span>
+      <span className="text-white">{formatValue(change.field, change.to)}</span>
+    </li>
+  );
+}
+
+function LensChangeRow({ lens }: { lens: LensChange }) {
+  const { t, lensName: displayLensName } = useI18n();
+  // 记录中的镜头名称是用途名称（如 "主摄"）时按语言显示
+  const lensName = `${lens.lens === LENS_ROLE_NAMES[lens.role] ? displayLensName({ role: lens.role }) : lens.lens} ${lens.focalLength}mm`;
+  if (lens.kind !== 'changed') {
+    return (
+      <li className="text-sm text-gray-300">
+        <span className={lens.kind === 'added' ? 'text-green-400' : 'text-red-400'}>{t(lens.kind === 'added' ? 'changelog.lensAdded' : 'changelog.lensRemoved')}</span>
+        <span className="ml-2">{lensName}</span>
+      </li>
+    );
+  }
+  return (
+    <>
+      {lens.changes.map(change => (
+        <FieldChangeRow key={`${lens.lens}-${change.field}`} change={change} prefix={`${lensName} `} />
+      ))}
+    </>
+  );
+}
+
+function PhoneChangeCard({ change }: { change: PhoneChange }) {
+  const { t, brandName } = useI18n();
+  const brandLabel = brandName(change.brand);
+  const brandTint = brandColor(change.brand);
+  const lensSummary = change.lenses.map(lens => `${lens.focalLength}mm`).join(' / ');
+
+  return (
+    <div className="bg-gray-800/60 rounded-lg p-4 border border-gray-700">
+      <div className="flex items-center gap-3 mb-2">
+        <span className={`px-2 py-0.5 rounded-full text-xs font-medium border ${KIND_STYLES[change.kind]}`}>{t(`changelog.kind.${change.kind}`)}</span>
+        <span className="font-semibold" style={{ color: brandTint }}>{change.name}</span>
+        <span className="text-xs text-gray-500">{brandLabel}</span>
+      </div>
+      {change.kind === 'changed' ? (
+        <ul className="space-y-1 pl-1">
+          {change.changes.map(field => <FieldChangeRow key={field.field} change={field} />)}
+          {change.lenses.map(lens => <LensChangeRow key={lens.lens} lens={lens} />)}
+        </ul>
+      ) : (
+        lensSummary && <div className="text-sm text-gray-400 pl-1">{t('changelog.lenses', { lenses: lensSummary })}</div>
+      )}
+    </div>
+  );
+}
+
+export default function ChangelogPage() {
+  const { t, href } = useI18n();
+  const [entries, setEntries] = useState<ChangelogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  // 加载更新记录
+  useEffect(() => {
+    loadChangelog()
+      .then(changelog => setEntries(changelog.entries))
+      .catch(error => {
+        console.error(`${t('changelog.loadFailed')}:`, error);
+        setLoadError(error instanceof Error ? error.message : String(error));
+      })
+      .finally(() => setLoading(false));
+  }, [t]);
+
+  return (
+    <div className="min-h-screen bg-black text-white flex flex-col relative overflow-hidden">
+      {/* Background Pattern */}
+      <div className="absolute inset-0 opacity-5 -z-10">
+        <div className="absolute inset-0" style={{
+          backgroundImage: `repeating-linear-gradient(45deg, transparent, transparent 35px, rgba(255,255,255,0.1) 35px, rgba(255,255,255,0.1) 70px)`,
+        }}></div>
+      </div>
+
+      <header className="relative z-20">
+        <div className="container mx-auto px-4 py-6">
+          <div className="absolute left-4 top-6">
+            <Link
+              href={href('/')}
+              className="w-10 h-10 rounded-full bg-gray-800 hover:bg-gray-700 transition-colors flex items-center justify-center"
+              aria-label={t('common.back')}
+            >
+              <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 19l-7-7 7-7"></path>
+              </svg>
+            </Link>
+          </div>
+
+          <div className="text-center px-12">
+            <h1 className="text-2xl sm:text-3xl md:text-4xl font-bold text-white mb-2">{t('changelog.title')}</h1>
+            <p className="text-xs sm:text-sm text-gray-400 leading-relaxed">{t('changelog.subtitle')}</p>
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-grow container mx-auto px-4 sm:px-6 py-6 relative z-10 max-w-4xl">
+        {loading ? (
+          <div className="text-white text-xl text-center">{t('common.loading')}</div>
+        ) : loadError ? (
+          <div className="text-center">
+            <div className="text-white text-xl mb-4">{t('common.loadFailed')}</div>
+            <pre className="text-left text-xs text-red-400 whitespace-pre-wrap bg-gray-900 rounded-lg p-4 border border-gray-800">{loadError}</pre>
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="text-gray-400 text-center">{t('changelog.empty')}</div>
+        ) : (
+          <div className="space-y-8">
+            {entries.map((entry, index) => (
+              <section key={`${entry.date}-${index}`} className="animate-fade-in">
+                <div className="flex items-baseline justify-between mb-4 border-b border-gray-800 pb-2">
+                  <h2 className="text-lg font-semibold text-white">{entry.date}</h2>
+                  <span className="text-xs text-gray-500">{t('changelog.phoneCount', { count: entry.changes.length })}</span>
+                </div>
+                <div className="grid grid-cols-1 gap-3">
+                  {entry.changes.map(change => <PhoneChangeCard key={change.id} change={change} />)}
+                </div>
+              </section>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
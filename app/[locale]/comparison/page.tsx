@@ -0,0 +1,193 @@
+'use client';
+
+import React, { useCallback, useState } from 'react';
+import type { LensInfo } from '../../../lib/schema';
+import { apertureAtFocalLength, apertureStops, lensApertureAt } from '../../../lib/optics';
+import { useI18n } from '../../../lib/i18n/context';
+import MetricChartPage from '../MetricChartPage';
+import type { MetricPointSource, MetricSourceDataset, MetricYAxis } from '../MetricChartPage';
+
+// 已选机型的 localStorage key
+const SELECTION_STORAGE_KEY = 'comparison:selectedPhones';
+
+// Y 轴：等效光圈 F 值，或相对参照的进光量差（档）
+type ApertureScale = 'fNumber' | 'stops';
+
+// 档数的参照：固定的全画幅光圈，或某台机型在同一焦距的等效光圈（选择时记下它的镜头）
+type StopsReference = { kind: 'fullFrame'; aperture: number } | { kind: 'phone'; id: string; label: string; lenses: LensInfo[] };
+
+// 可选的全画幅参照光圈
+const FULL_FRAME_REFERENCE_APERTURES = [1.4, 2, 2.8, 4, 5.6];
+
+const DEFAULT_STOPS_REFERENCE: StopsReference = { kind: 'fullFrame', aperture: 2.8 };
+
+// 等效光圈以及档数模式下相对参照的档数
+interface ApertureMeasurement {
+  fNumber: number;
+  stops?: number;
+}
+
+// 档数的显示，如 "+1.3"、"-0.5"
+function formatStops(stops: number): string {
+  const text = stops.toFixed(1);
+  return stops > 0 && text !== '0.0' ? `+${text}` : text === '-0.0' ? '0.0' : text;
+}
+
+/**
+ * 参照在某一焦距的等效光圈；参照机型比其最广角更广时为 null
+ */
+function referenceApertureAt(reference: StopsReference, focalLength: number): number | null {
+  return reference.kind === 'fullFrame' ? reference.aperture : apertureAtFocalLength(focalLength, reference.lenses);
+}
+
+export default function PhoneCameraComparison() {
+  const { t } = useI18n();
+  const [apertureScale, setApertureScale] = useState<ApertureScale>('fNumber');
+  const [stopsReference, setStopsReference] = useState<StopsReference>(DEFAULT_STOPS_REFERENCE);
+
+  const referenceName = stopsReference.kind === 'fullFrame'
+    ? t('comparison.reference.fullFrameAperture', { value: stopsReference.aperture })
+    : stopsReference.label;
+
+  // 曲线点位的等效光圈；档数模式下 y 为相对参照的档数，参照没有数据的焦距不画
+  const measure = useCallback((lens: LensInfo, focalLength: number) => {
+    const fNumber = lensApertureAt(lens, focalLength);
+    if (apertureScale === 'fNumber') return { y: fNumber, measurement: { fNumber } };
+    const reference = referenceApertureAt(stopsReference, focalLength);
+    if (reference === null) return null;
+    const stops = apertureStops(fNumber, reference);
+    return { y: stops, measurement: { fNumber, stops } };
+  }, [apertureScale, stopsReference]);
+
+  // 表格中的等效光圈，档数模式下在下方列出与参照的档数差
+  const tableCell = useCallback((focalLength: number, dataset: MetricSourceDataset) => {
+    const aperture = apertureAtFocalLength(focalLength, dataset.originalLenses || []);
+    if (aperture === null) return null;
+    const reference = apertureScale === 'stops' ? referenceApertureAt(stopsReference, focalLength) : null;
+    return { text: `F${aperture}`, detail: reference !== null ? formatStops(apertureStops(aperture, reference)) : undefined };
+  }, [apertureScale, stopsReference]);
+
+  // 与参照的档数差，正数表示更暗
+  const describeStops = (stops: number) => {
+    const text = formatStops(stops);
+    if (text === '0.0') return t('tooltip.stopsSame', { reference: referenceName });
+    return t(stops > 0 ? 'tooltip.stopsSlower' : 'tooltip.stopsFaster', { value: text.replace(/^[+-]/, ''), reference: referenceName });
+  };
+
+  // 提示框中的等效光圈，实际点位的等效光圈为推算值时加上标注，档数模式下附上与参照的差
+  const tooltipLines = ({ fNumber, stops }: ApertureMeasurement, _focalLength: number, source?: MetricPointSource) => {
+    const isDerived = source?.lens.derived?.includes(source.zoomEnd ? 'maxAperture' : 'equivalentAperture');
+    const lines = [`${t('tooltip.equivalentAperture', { value: fNumber.toFixed(1) })}${isDerived ? t('tooltip.derived') : ''}`];
+    if (stops !== undefined) lines.push(describeStops(stops));
+    return lines;
+  };
+
+  // F 值刻度取 4 的倍数（至少 F4）；档数取整档并包含 0（与参照相同）。两者都是越往下越暗
+  const yAxis = (values: number[]): MetricYAxis => {
+    if (apertureScale === 'stops') {
+      return {
+        title: t('comparison.yAxisStops', { reference: referenceName }),
+        reverse: true,
+        min: values.length > 0 ? Math.min(0, Math.floor(Math.min(...values))) : -1,
+        max: values.length > 0 ? Math.max(0, Math.ceil(Math.max(...values))) : 1,
+        stepSize: 1,
+        baseline: 0,
+        tickLabel: value => formatStops(value).replace(/\.0$/, '')
+      };
+    }
+
+    const min = values.length > 0 ? Math.max(4, Math.floor(Math.min(...values) / 4) * 4) : 4;
+    const max = values.length > 0 ? Math.max(min + 4, Math.ceil(Math.max(...values) / 4) * 4) : 32;
+    return {
+      title: t('comparison.yAxis'),
+      reverse: true,
+      min,
+      max,
+      ticks: Array.from({ length: (max - min) / 4 + 1 }, (_, index) => min + index * 4),
+      tickLabel: value => `F${value.toFixed(0)}`
+    };
+  };
+
+  return (
+    <MetricChartPage
+      storageKey={SELECTION_STORAGE_KEY}
+      title={t('comparison.title')}
+      subtitle={t('comparison.subtitle')}
+      tableTitle={t('comparison.tableTitle')}
+      measure={measure}
+      tooltipLines={tooltipLines}
+      yAxis={yAxis}
+      tableCell={tableCell}
+      focalAxisModes
+      derivedField="equivalentAperture"
+      legend={{
+        native: t('comparison.legend.native'),
+        crop: t('comparison.legend.crop'),
+        calculated: t('comparison.legend.calculated'),
+        notes: apertureScale === 'stops' ? [t('comparison.legend.stops', { reference: referenceName })] : []
+      }}
+      controls={({ chart, visible }) => (
+        <>
+          <div className="flex flex-wrap justify-center items-center gap-2 mt-3" role="group" aria-label={t('comparison.scale.label')}>
+            <span className="text-xs text-gray-400">{t('comparison.scale.label')}</span>
+            {(['fNumber', 'stops'] as const).map(scale => (
+              <button
+                key={scale}
+                onClick={() => setApertureScale(scale)}
+                aria-pressed={apertureScale === scale}
+                className={`px-3 py-1 rounded-full text-xs font-medium transition-colors border ${
+                  apertureScale === scale
+                    ? 'bg-gray-700 text-white border-gray-500'
+                    : 'bg-transparent text-gray-400 border-gray-600 hover:bg-gray-700/40'
+                }`}
+              >
+                {t(`comparison.scale.${scale}`)}
+              </button>
+            ))}
+          </div>
+          {/* 档数的参照：固定的全画幅光圈，或已显示的某台机型 */}
+          {apertureScale === 'stops' && (
+            <div className="flex flex-wrap justify-center items-center gap-2 mt-2" role="group" aria-label={t('comparison.reference.label')}>
+              <span className="text-xs text-gray-400">{t('comparison.reference.label')}</span>
+              {FULL_FRAME_REFERENCE_APERTURES.map(aperture => {
+                const active = stopsReference.kind === 'fullFrame' && stopsReference.aperture === aperture;
+                return (
+                  <button
+                    key={aperture}
+                    onClick={() => setStopsReference({ kind: 'fullFrame', aperture })}
+                    aria-pressed={active}
+                    className={`px-3 py-1 rounded-full text-xs font-medium transition-colors border ${
+                      active
+                        ? 'bg-gray-700 text-white border-gray-500'
+                        : 'bg-transparent text-gray-400 border-gray-600 hover:bg-gray-700/40'
+                    }`}
+                  >
+                    {t('comparison.reference.fullFrameAperture', { value: aperture })}
+                  </button>
+                );
+              })}
+              <select
+                value={stopsReference.kind === 'phone' ? stopsReference.id : ''}
+                onChange={event => {
+                  const dataset = chart.datasets.find(candidate => candidate.id === event.target.value);
+                  if (dataset) setStopsReference({ kind: 'phone', id: dataset.id, label: dataset.label, lenses: dataset.originalLenses || [] });
+                }}
+                aria-label={t('comparison.reference.phone')}
+                className={`px-3 py-1 rounded-full text-xs border bg-black ${
+                  stopsReference.kind === 'phone' ? 'text-white border-gray-500' : 'text-gray-400 border-gray-600'
+                }`}
+              >
+                <option value="">{t('comparison.reference.choosePhone')}</option>
+                {chart.datasets
+                  .filter(dataset => visible.has(dataset.id) || (stopsReference.kind === 'phone' && dataset.id === stopsReference.id))
+                  .map(dataset => (
+                    <option key={dataset.id} value={dataset.id}>{dataset.label}</option>
+                  ))}
+              </select>
+            </div>
+          )}
+        </>
+      )}
+    />
+  );
+}
@@ -0,0 +1,471 @@
+'use client';
+
+import React, { useState, useEffect, useMemo } from 'react';
+import Link from 'next/link';
+import { Chart as ChartJS, LinearScale, LineElement, LogarithmicScale, PointElement, Tooltip, TooltipItem } from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { loadDataset, sortByReleaseDate } from '../../../lib/schema';
+import type { ChartData as PhoneChartData, ChartDataset as PhoneChartDataset, LensInfo, PhoneBrandData } from '../../../lib/schema';
+import { backgroundBlur, buildCropZoomSegments, DEFAULT_SEGMENT_END_FOCAL_LENGTH, depthOfField, lensOpticsAt, phoneOpticsAt } from '../../../lib/optics';
+import type { LensOptics } from '../../../lib/optics';
+import { buildPhoneIdIndex, readSelection, writeSelection } from '../../../lib/selection';
+import { describePhoneNames, matchesPhoneQuery, phoneSearchKeys } from '../../../lib/phone-names';
+import { useI18n } from '../../../lib/i18n/context';
+import type { Translator } from '../../../lib/i18n';
+
+ChartJS.register(
+  LinearScale,
+  LogarithmicScale,
+  PointElement,
+  LineElement,
+  Tooltip
+);
+
+// 已选机型的 localStorage key
+const SELECTION_STORAGE_KEY = 'depth:selectedPhones';
+
+const DEFAULT_FOCAL_LENGTH = 70;
+const DEFAULT_SUBJECT_DISTANCE_M = 2;
+const DEFAULT_BACKGROUND_DISTANCE_M = 10;
+
+// 搜索结果最多显示的机型数
+const MAX_SEARCH_RESULTS = 12;
+
+// 曲线上的点：y 为背景虚化占画面对角线的百分比
+type BlurPoint = { x: number; y: number; lens: LensInfo; optics: LensOptics; native: boolean };
+
+/**
+ * 距离（mm）显示为米，无穷远显示为 ∞
+ */
+function formatDistance(distance: number, t: Translator): string {
+  if (!Number.isFinite(distance)) return t('depth.infinity');
+  return t('depth.value.metres', { value: (distance / 1000).toFixed(2) });
+}
+
+function formatBlurFraction(fraction: number): string {
+  return `${(fraction * 100).toFixed(2)}%`;
+}
+
+/**
+ * 输入框中的数值，无效或不大于 0 时返回 null
+ */
+function parsePositive(value: string): number | null {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+/**
+ * 按裁切变焦模型生成每台机型的背景虚化曲线，焦段切换处与其他图表一样画成竖直的跳变
+ */
+function buildBlurDatasets(datasets: PhoneChartDataset[], majorFocalLengths: number[], subjectDistance: number, backgroundDistance: number): PhoneChartDataset<BlurPoint>[] {
+  return datasets.map(dataset => {
+    const points = buildCropZoomSegments(dataset.originalLenses || [], majorFocalLengths, DEFAULT_SEGMENT_END_FOCAL_LENGTH);
+    const data = points.flatMap(point => {
+      const optics = lensOpticsAt(point.lens, point.focalLength);
+      if (!optics) return [];
+      return [{
+        x: point.focalLength,
+        y: backgroundBlur(optics, subjectDistance, backgroundDistance).frameFraction * 100,
+        lens: point.lens,
+        optics,
+        native: point.kind === 'native' || point.kind === 'optical_end'
+      }];
+    });
+    return { ...dataset, data, tension: 0 };
+  });
+}
+
+export default function DepthOfFieldCalculator() {
+  const { t, href, brandName, lensName, phoneNameLabels } = useI18n();
+  const [phoneData, setPhoneData] = useState<PhoneBrandData>({});
+  const [chartData, setChartData] = useState<PhoneChartData>({ labels: [], datasets: [] });
+  const [selectedPhones, setSelectedPhones] = useState<Set<string>>(new Set());
+  const [focalLengthInput, setFocalLengthInput] = useState(String(DEFAULT_FOCAL_LENGTH));
+  const [subjectDistanceInput, setSubjectDistanceInput] = useState(String(DEFAULT_SUBJECT_DISTANCE_M));
+  const [backgroundDistanceInput, setBackgroundDistanceInput] = useState(String(DEFAULT_BACKGROUND_DISTANCE_M));
+  const [searchQuery, setSearchQuery] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  // 加载数据
+  useEffect(() => {
+    loadDataset()
+      .then(({ phones, chart }) => {
+        setPhoneData(phones);
+        setChartData(chart);
+        // 默认每个品牌最新的 1 台机型，优先恢复链接或上次保存的选择
+        const defaultSelection = new Set(Object.values(phones).flatMap(brandPhones => sortByReleaseDate(brandPhones).slice(0, 1).map(phone => phone.id)));
+        setSelectedPhones(readSelection(SELECTION_STORAGE_KEY, buildPhoneIdIndex(phones)) || defaultSelection);
+      })
+      .catch(error => {
+        console.error(`${t('common.loadFailed')}:`, error);
+        setLoadError(error instanceof Error ? error.message : String(error));
+      })
+      .finally(() => setLoading(false));
+  }, [t]);
+
+  // 保存选择，并同步到 URL 便于分享
+  useEffect(() => {
+    if (loading || loadError) return;
+    writeSelection(SELECTION_STORAGE_KEY, selectedPhones);
+  }, [selectedPhones, loading, loadError]);
+
+  const focalLength = parsePositive(focalLengthInput);
+  const subjectDistance = parsePositive(subjectDistanceInput);
+  const backgroundDistance = parsePositive(backgroundDistanceInput);
+  const inputsValid = focalLength !== null && subjectDistance !== null && backgroundDistance !== null;
+
+  const majorFocalLengths = useMemo(() => (chartData.labels || []).map(label => parseFloat(label.replace('mm', ''))), [chartData]);
+  const phonesById = useMemo(() => new Map(Object.values(phoneData).flat().map(phone => [phone.id, phone])), [phoneData]);
+  const brandsById = useMemo(() => new Map(Object.entries(phoneData).flatMap(([brand, phones]) => phones.map(phone => [phone.id, brand] as const))), [phoneData]);
+  const phoneSearchIndex = useMemo(() => new Map(
+    Object.entries(phoneData).flatMap(([brand, phones]) => phones.map(phone => [phone.id, phoneSearchKeys(brand, phone)] as const))
+  ), [phoneData]);
+
+  // 已选机型，按图表数据中的顺序
+  const selectedDatasets = useMemo(() => chartData.datasets.filter(dataset => selectedPhones.has(dataset.id)), [chartData, selectedPhones]);
+
+  // 搜索结果：未选的机型，新机型在前
+  const searchResults = useMemo(() => {
+    if (!searchQuery.trim()) return [];
+    return sortByReleaseDate(Object.values(phoneData).flat())
+      .filter(phone => !selectedPhones.has(phone.id) && matchesPhoneQuery(phoneSearchIndex.get(phone.id) || [], searchQuery))
+      .slice(0, MAX_SEARCH_RESULTS);
+  }, [phoneData, phoneSearchIndex, searchQuery, selectedPhones]);
+
+  // 每台机型在所选焦距下的计算结果；距离在页面上以米输入，计算使用 mm
+  const results = useMemo(() => {
+    if (!inputsValid) return [];
+    return selectedDatasets.map(dataset => {
+      const match = phoneOpticsAt(focalLength, dataset.originalLenses || []);
+      if (!match) return { dataset, match: null, depth: null, blur: null };
+      return {
+        dataset,
+        match,
+        depth: depthOfField(match.optics, subjectDistance * 1000),
+        blur: backgroundBlur(match.optics, subjectDistance * 1000, backgroundDistance * 1000)
+      };
+    });
+  }, [selectedDatasets, inputsValid, focalLength, subjectDistance, backgroundDistance]);
+
+  const blurDatasets = useMemo(() => (inputsValid
+    ? buildBlurDatasets(selectedDatasets, majorFocalLengths, subjectDistance * 1000, backgroundDistance * 1000)
+    : []), [selectedDatasets, majorFocalLengths, inputsValid, subjectDistance, backgroundDistance]);
+
+  const togglePhone = (phoneId: string) => {
+    const next = new Set(selectedPhones);
+    if (next.has(phoneId)) {
+      next.delete(phoneId);
+    } else {
+      next.add(phoneId);
+    }
+    setSelectedPhones(next);
+  };
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: {
+      mode: 'point' as const,
+      intersect: false,
+      axis: 'xy' as const,
+    },
+    elements: {
+      point: {
+        radius: (context: { raw: unknown }) => ((context.raw as BlurPoint)?.native ? 3 : 0),
+        hoverRadius: (context: { raw: unknown }) => ((context.raw as BlurPoint)?.native ? 5 : 0),
+        hitRadius: (context: { raw: unknown }) => ((context.raw as BlurPoint)?.native ? 10 : 0)
+      }
+    },
+    scales: {
+      x: {
+        type: 'logarithmic' as const,
+        min: majorFocalLengths.length > 0 ? Math.min(...majorFocalLengths) * 0.9 : 10,
+        max: majorFocalLengths.length > 0 ? Math.max(...majorFocalLengths) * 1.05 : 220,
+        title: {
+            display: true,
+            text: t('chart.xAxis'),
+            color: '#999999',
+            font: { size: 12 }
+        },
+        grid: {
+          color: '#2a2a2a',
+          lineWidth: 1
+        },
+        ticks: {
+          color: '#999999',
+          font: {
+            size: 11
+          },
+          autoSkip: false,
+          callback: (value: unknown) => `${Number(value)}mm`
+        },
+        afterBuildTicks: (axis: { ticks: Array<{ value: number }>, min: number, max: number }) => {
+          axis.ticks = majorFocalLengths
+            .filter(fl => fl >= axis.min && fl <= axis.max)
+            .map(fl => ({ value: fl }));
+        },
+        border: {
+          color: '#444444'
+        }
+      },
+      y: {
+        type: 'linear' as const,
+        min: 0,
+        title: {
+            display: true,
+            text: t('depth.yAxis', { subject: subjectDistanceInput, background: backgroundDistanceInput }),
+            color: '#999999',
+            font: { size: 12 }
+        },
+        ticks: {
+          color: '#999999',
+          font: {
+            size: 11
+          },
+          callback: (value: unknown) => `${Number(value)}%`
+        },
+        grid: {
+          color: '#2a2a2a',
+          lineWidth: 1
+        },
+        border: {
+          color: '#444444'
+        }
+      }
+    },
+    plugins: {
+      legend: {
+        display: false
+      },
+      tooltip: {
+        enabled: true,
+        callbacks: {
+          title: (items: TooltipItem<'line'>[]) => items.map(item => item.dataset.label || '').join(', '),
+          label: (context: TooltipItem<'line'>) => {
+            const point = context.raw as BlurPoint;
+            return [
+              t('tooltip.lens', { name: lensName(point.lens) }),
+              t('tooltip.focalLength', { value: context.parsed.x }),
+              t('tooltip.backgroundBlur', { value: `${context.parsed.y.toFixed(2)}%` })
+            ];
+          }
+        }
+      }
+    }
+  };
+
+  const inputClassName = 'w-24 bg-gray-800 border border-gray-600 rounded-lg px-2 py-1.5 text-white text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500';
+
+  return (
+    <div className="min-h-screen bg-black text-white flex flex-col relative overflow-hidden">
+      {/* Background Pattern */}
+      <div className="absolute inset-0 opacity-5 -z-10">
+        <div className="absolute inset-0" style={{
+          backgroundImage: `repeating-linear-gradient(45deg, transparent, transparent 35px, rgba(255,255,255,0.1) 35px, rgba(255,255,255,0.1) 70px)`,
+        }}></div>
+      </div>
+
+      <header className="relative z-20">
+        <div className="container mx-auto px-4 py-6">
+          <div className="absolute left-4 top-6">
+            <Link
+              href={href('/')}
+              className="w-10 h-10 rounded-full bg-gray-800 hover:bg-gray-700 transition-colors flex items-center justify-center"
+              aria-label={t('common.back')}
+            >
+              <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 19l-7-7 7-7"></path>
+              </svg>
+            </Link>
+          </div>
+
+          <div className="text-center px-12">
+            <h1 className="text-2xl sm:text-3xl md:text-4xl font-bold text-white mb-2">{t('depth.title')}</h1>
+            <p className="text-xs sm:text-sm text-gray-400 leading-relaxed">{t('depth.subtitle')}</p>
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-grow container mx-auto px-4 sm:px-6 py-6 relative z-10">
+        {loading ? (
+          <div className="text-white text-xl text-center">{t('common.loading')}</div>
+        ) : loadError ? (
+          <div className="text-center">
+            <div className="text-white text-xl mb-4">{t('common.loadFailed')}</div>
+            <pre className="text-left text-xs text-red-400 whitespace-pre-wrap bg-gray-900 rounded-lg p-4 border border-gray-800">{loadError}</pre>
+          </div>
+        ) : (
+          <div className="space-y-6 animate-fade-in">
+            {/* 参数 */}
+            <section className="bg-gray-900/50 backdrop-blur-sm rounded-xl p-6 border border-gray-800">
+              <div className="flex flex-wrap items-end gap-6">
+                <label className="text-sm text-gray-300">
+                  <div className="mb-1">{t('depth.focalLength')}</div>
+                  <input type="number" min={1} step={1} value={focalLengthInput} onChange={event => setFocalLengthInput(event.target.value)} className={inputClassName} />
+                </label>
+                <label className="text-sm text-gray-300">
+                  <div className="mb-1">{t('depth.subjectDistance')}</div>
+                  <input type="number" min={0.1} step={0.1} value={subjectDistanceInput} onChange={event => setSubjectDistanceInput(event.target.value)} className={inputClassName} />
+                </label>
+                <label className="text-sm text-gray-300">
+                  <div className="mb-1">{t('depth.backgroundDistance')}</div>
+                  <input type="number" min={0.1} step={0.5} value={backgroundDistanceInput} onChange={event => setBackgroundDistanceInput(event.target.value)} className={inputClassName} />
+                </label>
+              </div>
+              <div className="flex flex-wrap items-center gap-2 mt-4" role="group" aria-label={t('depth.focalLength')}>
+                {majorFocalLengths.map(focal => (
+                  <button
+                    key={focal}
+                    type="button"
+                    onClick={() => setFocalLengthInput(String(focal))}
+                    aria-pressed={focalLength === focal}
+                    className={`px-3 py-1 rounded-full text-xs font-medium transition-colors border ${
+                      focalLength === focal
+                        ? 'bg-gray-700 text-white border-gray-500'
+                        : 'bg-transparent text-gray-400 border-gray-600 hover:bg-gray-700/40'
+                    }`}
+                  >
+                    {focal}mm
+                  </button>
+                ))}
+              </div>
+              {!inputsValid && <p className="mt-3 text-xs text-red-400">{t('depth.invalidInput')}</p>}
+            </section>
+
+            {/* 机型选择 */}
+            <section className="bg-gray-900/50 backdrop-blur-sm rounded-xl p-6 border border-gray-800">
+              <h3 className="text-lg font-medium text-white mb-3">{t('depth.phones')}</h3>
+              {selectedDatasets.length === 0 ? (
+                <p className="text-sm text-gray-400 mb-4">{t('depth.noPhones')}</p>
+              ) : (
+                <div className="flex flex-wrap gap-2 mb-4">
+                  {selectedDatasets.map(dataset => (
+                    <button
+                      key={dataset.id}
+                      type="button"
+                      onClick={() => togglePhone(dataset.id)}
+                      title={t('depth.remove', { name: dataset.label })}
+                      className="px-3 py-1.5 rounded-full text-xs sm:text-sm font-medium text-white border"
+                      style={{ backgroundColor: dataset.borderColor, borderColor: dataset.borderColor }}
+                    >
+                      {dataset.label} ×
+                    </button>
+                  ))}
+                </div>
+              )}
+              <input
+                type="search"
+                value={searchQuery}
+                onChange={event => setSearchQuery(event.target.value)}
+                placeholder={t('search.placeholder')}
+                aria-label={t('search.label')}
+                className="w-full max-w-md bg-gray-800 border border-gray-600 rounded-full px-4 py-2 text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+              />
+              {searchQuery.trim() && searchResults.length === 0 && (
+                <div className="text-gray-400 text-sm mt-3">{t('search.noResults', { query: searchQuery.trim() })}</div>
+              )}
+              {searchResults.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-3">
+                  {searchResults.map(phone => (
+                    <button
+                      key={phone.id}
+                      type="button"
+                      onClick={() => togglePhone(phone.id)}
+                      title={[phone.name, ...describePhoneNames(phone, phoneNameLabels)].join('\n')}
+                      className="px-3 py-1.5 rounded-full text-xs sm:text-sm font-medium bg-gray-800/80 text-gray-300 hover:bg-gray-700/80 border border-gray-600 hover:border-gray-500"
+                    >
+                      + {phone.name}
+                      <span className="ml-1 text-gray-500">{brandName(brandsById.get(phone.id) || '')}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </section>
+
+            {/* 计算结果 */}
+            <section className="bg-gray-900 rounded-lg p-4 sm:p-6">
+              <h3 className="text-xl font-semibold mb-4 text-white">
+                {t('depth.resultsTitle', { focal: focalLengthInput, subject: subjectDistanceInput, background: backgroundDistanceInput })}
+              </h3>
+              {results.length > 0 ? (
+                <div className="overflow-x-auto scrollbar-custom touch-pan-x" style={{ WebkitOverflowScrolling: 'touch' }}>
+                  <table className="w-full text-sm text-white border-collapse min-w-max">
+                    <thead>
+                      <tr>
+                        <th className="sticky left-0 bg-gray-800 border border-gray-600 px-3 py-2 text-left font-medium z-20 shadow-lg min-w-[150px]">{t('table.phone')}</th>
+                        <th className="border border-gray-600 px-3 py-2 text-center font-medium whitespace-nowrap">{t('depth.column.lens')}</th>
+                        <th className="border border-gray-600 px-3 py-2 text-center font-medium whitespace-nowrap">{t('depth.column.equivalentAperture')}</th>
+                        <th className="border border-gray-600 px-3 py-2 text-center font-medium whitespace-nowrap">{t('depth.column.physical')}</th>
+                        <th className="border border-gray-600 px-3 py-2 text-center font-medium whitespace-nowrap">{t('depth.column.nearFar')}</th>
+                        <th className="border border-gray-600 px-3 py-2 text-center font-medium whitespace-nowrap">{t('depth.column.depthOfField')}</th>
+                        <th className="border border-gray-600 px-3 py-2 text-center font-medium whitespace-nowrap">{t('depth.column.blur')}</th>
+                        <th className="border border-gray-600 px-3 py-2 text-center font-medium whitespace-nowrap">{t('depth.column.blurSensor')}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {results.map(({ dataset, match, depth, blur }) => {
+                        const phone = phonesById.get(dataset.id);
+                        const otherNames = phone ? describePhoneNames(phone, phoneNameLabels) : [];
+                        return (
+                          <tr key={dataset.id} className="hover:bg-gray-800/50">
+                            <td className="sticky left-0 bg-gray-800 border border-gray-600 px-3 py-2 font-medium z-10 shadow-lg min-w-[150px]" style={{ color: dataset.borderColor }}>
+                              <div className="truncate" title={[dataset.label, ...otherNames].join('\n')}>{dataset.label}</div>
+                            </td>
+                            {match && depth && blur ? (
+                              <>
+                                <td className="border border-gray-600 px-3 py-2 text-center whitespace-nowrap">
+                                  {lensName(match.lens)}
+                                  {match.optics.cropRatio > 1.001 && (
+                                    <span className="ml-1 text-xs italic text-gray-400">{t('depth.crop', { ratio: match.optics.cropRatio.toFixed(1) })}</span>
+                                  )}
+                                </td>
+                                <td className="border border-gray-600 px-3 py-2 text-center whitespace-nowrap">F{(match.optics.aperture * match.optics.cropFactor).toFixed(1)}</td>
+                                <td className="border border-gray-600 px-3 py-2 text-center whitespace-nowrap">
+                                  {t('depth.value.physical', { focal: match.optics.focalLength.toFixed(1), aperture: match.optics.aperture.toFixed(2) })}
+                                </td>
+                                <td className="border border-gray-600 px-3 py-2 text-center whitespace-nowrap">
+                                  {t('depth.value.range', { near: formatDistance(depth.near, t), far: formatDistance(depth.far, t) })}
+                                </td>
+                                <td className="border border-gray-600 px-3 py-2 text-center whitespace-nowrap font-bold">{formatDistance(depth.total, t)}</td>
+                                <td className="border border-gray-600 px-3 py-2 text-center whitespace-nowrap font-bold">{formatBlurFraction(blur.frameFraction)}</td>
+                                <td className="border border-gray-600 px-3 py-2 text-center whitespace-nowrap">
+                                  {t('depth.value.microns', { value: (blur.sensorDiameter * 1000).toFixed(1) })}
+                                </td>
+                              </>
+                            ) : (
+                              <td colSpan={7} className="border border-gray-600 px-3 py-2 text-center text-gray-500">{t('depth.unavailable')}</td>
+                            )}
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <p className="text-gray-400">{t('chart.noData')}</p>
+              )}
+              <div className="mt-4 text-xs text-gray-400">
+                <p>• {t('depth.note.model')}</p>
+                <p>• {t('depth.note.coc')}</p>
+                <p>• {t('depth.note.blur')}</p>
+              </div>
+            </section>
+
+            {/* 背景虚化随焦距的变化 */}
+            <section className="bg-gray-900/50 backdrop-blur-sm rounded-xl p-6 border border-gray-800">
+              <h3 className="text-lg font-medium text-white mb-4">{t('depth.chartTitle')}</h3>
+              <div className="h-[50vh] sm:h-[55vh]">
+                {blurDatasets.length > 0 ? (
+                  <Line data={{ datasets: blurDatasets }} options={chartOptions} />
+                ) : (
+                  <div className="text-gray-400 text-center flex items-center justify-center h-full">{t('chart.noData')}</div>
+                )}
+              </div>
+            </section>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
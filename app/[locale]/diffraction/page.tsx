@@ -0,0 +1,213 @@
+'use client';
+
+import React, { useState, useEffect, useMemo } from 'react';
+import Link from 'next/link';
+import { loadDataset } from '../../../lib/schema';
+import type { ChartData as PhoneChartData, ChartDataset as PhoneChartDataset, LensInfo, PhoneBrandData } from '../../../lib/schema';
+import { DIFFRACTION_WAVELENGTH_UM, diffractionLimitedPixelPitch } from '../../../lib/optics';
+import { lensDiffractionAt, sensorDisplayName } from '../../../lib/sensors';
+import { describePhoneNames, matchesPhoneQuery, phoneSearchKeys } from '../../../lib/phone-names';
+import { useI18n } from '../../../lib/i18n/context';
+
+type DiffractionRow = NonNullable<ReturnType<typeof lensDiffractionAt>> & {
+  lens: LensInfo;
+  focalLength: number;
+  /** 连续光学变焦镜头的长焦端 */
+  zoomEnd: boolean;
+};
+
+/**
+ * 机型每颗镜头的衍射分析，连续光学变焦镜头另外分析长焦端；传感器未登记或缺少转换系数的镜头跳过
+ */
+function buildDiffractionRows(dataset: PhoneChartDataset): DiffractionRow[] {
+  const lenses = [...(dataset.originalLenses || [])].sort((a, b) => a.focalLength - b.focalLength);
+  return lenses.flatMap(lens => {
+    const detail = dataset.lensDetails[lens.focalLength.toString()];
+    const focalLengths = lens.zoom && lens.zoom.maxFocalLength > lens.focalLength
+      ? [lens.focalLength, lens.zoom.maxFocalLength]
+      : [lens.focalLength];
+    return focalLengths.flatMap(focalLength => {
+      const result = lensDiffractionAt(lens, detail, focalLength);
+      return result ? [{ ...result, lens, focalLength, zoomEnd: focalLength !== lens.focalLength }] : [];
+    });
+  });
+}
+
+export default function DiffractionTable() {
+  const { t, href, lensName, phoneNameLabels } = useI18n();
+  const [phoneData, setPhoneData] = useState<PhoneBrandData>({});
+  const [chartData, setChartData] = useState<PhoneChartData>({ labels: [], datasets: [] });
+  const [searchQuery, setSearchQuery] = useState('');
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  // 加载数据
+  useEffect(() => {
+    loadDataset()
+      .then(({ phones, chart }) => {
+        setPhoneData(phones);
+        setChartData(chart);
+      })
+      .catch(error => {
+        console.error(`${t('common.loadFailed')}:`, error);
+        setLoadError(error instanceof Error ? error.message : String(error));
+      })
+      .finally(() => setLoading(false));
+  }, [t]);
+
+  const phonesById = useMemo(() => new Map(Object.values(phoneData).flat().map(phone => [phone.id, phone])), [phoneData]);
+  const phoneSearchIndex = useMemo(() => new Map(
+    Object.entries(phoneData).flatMap(([brand, phones]) => phones.map(phone => [phone.id, phoneSearchKeys(brand, phone)] as const))
+  ), [phoneData]);
+
+  // 每台机型的分析结果，按图表数据中的顺序
+  const phoneRows = useMemo(() => chartData.datasets
+    .map(dataset => ({ dataset, rows: buildDiffractionRows(dataset) }))
+    .filter(({ rows }) => rows.length > 0), [chartData]);
+
+  const allRows = phoneRows.flatMap(({ rows }) => rows);
+  const flaggedCount = allRows.filter(row => row.analysis.exceedsDiffractionLimit).length;
+
+  const visiblePhoneRows = useMemo(() => phoneRows
+    .filter(({ dataset }) => !searchQuery.trim() || matchesPhoneQuery(phoneSearchIndex.get(dataset.id) || [], searchQuery))
+    .map(({ dataset, rows }) => ({ dataset, rows: flaggedOnly ? rows.filter(row => row.analysis.exceedsDiffractionLimit) : rows }))
+    .filter(({ rows }) => rows.length > 0), [phoneRows, phoneSearchIndex, searchQuery, flaggedOnly]);
+
+  const cellClassName = 'border border-gray-600 px-3 py-2 text-center whitespace-nowrap';
+
+  return (
+    <div className="min-h-screen bg-black text-white flex flex-col relative overflow-hidden">
+      {/* Background Pattern */}
+      <div className="absolute inset-0 opacity-5 -z-10">
+        <div className="absolute inset-0" style={{
+          backgroundImage: `repeating-linear-gradient(45deg, transparent, transparent 35px, rgba(255,255,255,0.1) 35px, rgba(255,255,255,0.1) 70px)`,
+        }}></div>
+      </div>
+
+      <header className="relative z-20">
+        <div className="container mx-auto px-4 py-6">
+          <div className="absolute left-4 top-6">
+            <Link
+              href={href('/')}
+              className="w-10 h-10 rounded-full bg-gray-800 hover:bg-gray-700 transition-colors flex items-center justify-center"
+              aria-label={t('common.back')}
+            >
+              <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 19l-7-7 7-7"></path>
+              </svg>
+            </Link>
+          </div>
+
+          <div className="text-center px-12">
+            <h1 className="text-2xl sm:text-3xl md:text-4xl font-bold text-white mb-2">{t('diffraction.title')}</h1>
+            <p className="text-xs sm:text-sm text-gray-400 leading-relaxed">{t('diffraction.subtitle')}</p>
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-grow container mx-auto px-4 sm:px-6 py-6 relative z-10">
+        {loading ? (
+          <div className="text-white text-xl text-center">{t('common.loading')}</div>
+        ) : loadError ? (
+          <div className="text-center">
+            <div className="text-white text-xl mb-4">{t('common.loadFailed')}</div>
+            <pre className="text-left text-xs text-red-400 whitespace-pre-wrap bg-gray-900 rounded-lg p-4 border border-gray-800">{loadError}</pre>
+          </div>
+        ) : (
+          <div className="space-y-6 animate-fade-in">
+            <section className="bg-gray-900 rounded-lg p-4 sm:p-6">
+              <div className="flex flex-wrap items-center gap-3 mb-4">
+                <input
+                  type="search"
+                  value={searchQuery}
+                  onChange={event => setSearchQuery(event.target.value)}
+                  placeholder={t('search.placeholder')}
+                  aria-label={t('search.label')}
+                  className="w-full max-w-md bg-gray-800 border border-gray-600 rounded-full px-4 py-2 text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                />
+                <button
+                  type="button"
+                  onClick={() => setFlaggedOnly(!flaggedOnly)}
+                  aria-pressed={flaggedOnly}
+                  className={`px-3 py-1 rounded-full text-xs font-medium transition-colors border ${
+                    flaggedOnly
+                      ? 'bg-amber-600/20 text-amber-400 border-amber-600/50'
+                      : 'bg-transparent text-gray-400 border-gray-600 hover:bg-gray-700/40'
+                  }`}
+                >
+                  {t('diffraction.flaggedOnly')}
+                </button>
+                <span className="text-xs text-gray-400">{t('diffraction.summary', { flagged: flaggedCount, total: allRows.length })}</span>
+              </div>
+
+              {visiblePhoneRows.length > 0 ? (
+                <div className="overflow-x-auto scrollbar-custom touch-pan-x" style={{ WebkitOverflowScrolling: 'touch' }}>
+                  <table className="w-full text-sm text-white border-collapse min-w-max">
+                    <thead>
+                      <tr>
+                        <th className="sticky left-0 bg-gray-800 border border-gray-600 px-3 py-2 text-left font-medium z-20 shadow-lg min-w-[150px]">{t('table.phone')}</th>
+                        <th className="border border-gray-600 px-3 py-2 text-center font-medium whitespace-nowrap">{t('diffraction.column.lens')}</th>
+                        <th className="border border-gray-600 px-3 py-2 text-center font-medium whitespace-nowrap">{t('diffraction.column.sensor')}</th>
+                        <th className="border border-gray-600 px-3 py-2 text-center font-medium whitespace-nowrap">{t('diffraction.column.physicalAperture')}</th>
+                        <th className="border border-gray-600 px-3 py-2 text-center font-medium whitespace-nowrap">{t('diffraction.column.pixelPitch')}</th>
+                        <th className="border border-gray-600 px-3 py-2 text-center font-medium whitespace-nowrap">{t('diffraction.column.airyDisk')}</th>
+                        <th className="border border-gray-600 px-3 py-2 text-center font-medium whitespace-nowrap">{t('diffraction.column.ratio')}</th>
+                        <th className="border border-gray-600 px-3 py-2 text-center font-medium whitespace-nowrap">{t('diffraction.column.limitedResolution')}</th>
+                        <th className="border border-gray-600 px-3 py-2 text-center font-medium whitespace-nowrap">{t('diffraction.column.marketedResolution')}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {visiblePhoneRows.map(({ dataset, rows }) => {
+                        const phone = phonesById.get(dataset.id);
+                        const otherNames = phone ? describePhoneNames(phone, phoneNameLabels) : [];
+                        return rows.map((row, index) => (
+                          <tr key={`${dataset.id}-${row.focalLength}`} className="hover:bg-gray-800/50">
+                            {index === 0 && (
+                              <td rowSpan={rows.length} className="sticky left-0 bg-gray-800 border border-gray-600 px-3 py-2 font-medium z-10 shadow-lg min-w-[150px]" style={{ color: dataset.borderColor }}>
+                                <div className="truncate" title={[dataset.label, ...otherNames].join('\n')}>{dataset.label}</div>
+                              </td>
+                            )}
+                            <td className={cellClassName}>
+                              {lensName(row.lens)} {row.focalLength}mm
+                              {row.zoomEnd && <span className="ml-1 text-xs italic text-gray-400">{t('diffraction.zoomEnd')}</span>}
+                            </td>
+                            <td className={cellClassName}>{sensorDisplayName(row.sensor)}</td>
+                            <td className={cellClassName}>f/{row.optics.aperture.toFixed(2)}</td>
+                            <td className={cellClassName}>{t('diffraction.value.microns', { value: row.sensor.pixelPitchUm.toFixed(2) })}</td>
+                            <td className={cellClassName}>{t('diffraction.value.microns', { value: row.analysis.airyDiskUm.toFixed(2) })}</td>
+                            <td className={cellClassName}>{row.analysis.airyToPixelRatio.toFixed(1)}</td>
+                            <td className={`${cellClassName} font-bold`}>
+                              {t('diffraction.value.megapixels', { value: row.analysis.diffractionLimitedMp.toFixed(1) })}
+                            </td>
+                            <td
+                              className={`${cellClassName} ${row.analysis.exceedsDiffractionLimit ? 'text-amber-400' : ''}`}
+                              title={row.analysis.exceedsDiffractionLimit ? t('diffraction.flag', { pitch: diffractionLimitedPixelPitch(row.optics.aperture).toFixed(2) }) : undefined}
+                            >
+                              {row.analysis.exceedsDiffractionLimit && '⚠ '}
+                              {t('diffraction.value.megapixels', { value: row.sensor.resolutionMp })}
+                            </td>
+                          </tr>
+                        ));
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <p className="text-gray-400">
+                  {searchQuery.trim() ? t('search.noResults', { query: searchQuery.trim() }) : t('chart.noData')}
+                </p>
+              )}
+              <div className="mt-4 text-xs text-gray-400">
+                <p>• {t('diffraction.note.airy', { wavelength: DIFFRACTION_WAVELENGTH_UM * 1000 })}</p>
+                <p>• {t('diffraction.note.criterion')}</p>
+                <p>• {t('diffraction.note.aperture')}</p>
+                <p>• {t('diffraction.note.unregistered')}</p>
+              </div>
+            </section>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import type { Metadata } from "next";
+import { Geist, Geist_Mono } from "next/font/google";
+import { notFound } from "next/navigation";
+import { createTranslator, HTML_LANG, isLocale, LOCALES } from "../../lib/i18n";
+import { I18nProvider } from "../../lib/i18n/context";
+import LanguageSwitcher from "./LanguageSwitcher";
+import "../globals.css";
+
+const geistSans = Geist({
+  variable: "--font-geist-sans",
+  subsets: ["latin"],
+});
+
+const geistMono = Geist_Mono({
+  variable: "--font-geist-mono",
+  subsets: ["latin"],
+});
+
+type LayoutParams = Promise<{ locale: string }>;
+
+export function generateStaticParams() {
+  return LOCALES.map(locale => ({ locale }));
+}
+
+export async function generateMetadata({ params }: { params: LayoutParams }): Promise<Metadata> {
+  const { locale } = await params;
+  if (!isLocale(locale)) return {};
+  const t = createTranslator(locale);
+  return {
+    title: t('meta.title'),
+    description: t('meta.description'),
+    alternates: {
+      languages: Object.fromEntries(LOCALES.map(alternate => [HTML_LANG[alternate], `/${alternate}`])),
+    },
+  };
+}
+
+export default async function RootLayout({
+  children,
+  params,
+}: Readonly<{
+  children: React.ReactNode;
+  params: LayoutParams;
+}>) {
+  const { locale } = await params;
+  if (!isLocale(locale)) notFound();
+
+  return (
+    <html lang={HTML_LANG[locale]} suppressHydrationWarning={true}>
+      <body
+        className={`${geistSans.variable} ${geistMono.variable} antialiased`}
+      >
+        <I18nProvider locale={locale}>
+          <LanguageSwitcher />
+          {children}
+        </I18nProvider>
+      </body>
+    </html>
+  );
+}
@@ -0,0 +1,106 @@
+'use client';
+
+import React, { useCallback, useState } from 'react';
+import type { LensInfo } from '../../../lib/schema';
+import { lensApertureAt, LIGHT_METRICS, LIGHT_REFERENCE_APERTURE, lightAtFocalLength, lightMetricValue } from '../../../lib/optics';
+import type { LightMetric } from '../../../lib/optics';
+import { useI18n } from '../../../lib/i18n/context';
+import type { Translator } from '../../../lib/i18n';
+import MetricChartPage from '../MetricChartPage';
+import type { MetricPointSource, MetricSourceDataset, MetricYAxis } from '../MetricChartPage';
+
+// 已选机型的 localStorage key
+const SELECTION_STORAGE_KEY = 'light:selectedPhones';
+
+/**
+ * 按指标显示数值，如 "-2.3 档"、"4.1mm"；刻度标签（precise 为 false）去掉多余的小数位
+ */
+function formatLightValue(metric: LightMetric, value: number, t: Translator, precise = true): string {
+  const text = precise ? value.toFixed(1) : String(Number(value.toFixed(1)));
+  if (metric === 'stops') return t('light.value.stops', { value: value > 0 && text !== '0.0' ? `+${text}` : text === '-0.0' ? '0.0' : text });
+  return t('light.value.pupil', { value: text });
+}
+
+export default function PhoneLightComparison() {
+  const { t } = useI18n();
+  const [lightMetric, setLightMetric] = useState<LightMetric>('stops');
+
+  // 档数的参照名称，如 "全画幅 f/2.8"
+  const referenceName = t('comparison.reference.fullFrameAperture', { value: LIGHT_REFERENCE_APERTURE });
+  const metricName = t(`light.metric.${lightMetric}`);
+
+  // 曲线点位的等效光圈，y 为进光指标
+  const measure = useCallback((lens: LensInfo, focalLength: number) => {
+    const fNumber = lensApertureAt(lens, focalLength);
+    return { y: lightMetricValue(focalLength, fNumber, lightMetric), measurement: fNumber };
+  }, [lightMetric]);
+
+  const tableCell = useCallback((focalLength: number, dataset: MetricSourceDataset) => {
+    const value = lightAtFocalLength(focalLength, dataset.originalLenses || [], lightMetric);
+    return value === null ? null : { text: formatLightValue(lightMetric, value, t) };
+  }, [lightMetric, t]);
+
+  // 提示框中的等效光圈、入瞳直径与总进光量；实际点位的等效光圈为推算值时加上标注
+  const tooltipLines = (fNumber: number, focalLength: number, source?: MetricPointSource) => {
+    const isDerived = source?.lens.derived?.includes(source.zoomEnd ? 'maxAperture' : 'equivalentAperture');
+    return [
+      `${t('tooltip.equivalentAperture', { value: fNumber.toFixed(1) })}${isDerived ? t('tooltip.derived') : ''}`,
+      t('tooltip.entrancePupil', { value: lightMetricValue(focalLength, fNumber, 'pupil').toFixed(1) }),
+      t('tooltip.totalLight', { value: formatLightValue('stops', lightMetricValue(focalLength, fNumber, 'stops'), t), reference: referenceName })
+    ];
+  };
+
+  // 档数取整档并包含 0（与参照相同），越往上进光越多；入瞳直径从 0 开始
+  const yAxis = (values: number[]): MetricYAxis => {
+    const axis = {
+      title: t(`light.yAxis.${lightMetric}`, { reference: referenceName }),
+      stepSize: 1,
+      baseline: lightMetric === 'stops' ? 0 : undefined,
+      tickLabel: (value: number) => formatLightValue(lightMetric, value, t, false)
+    };
+    if (values.length === 0) return { ...axis, ...(lightMetric === 'stops' ? { min: -6, max: 0 } : { min: 0, max: 10 }) };
+    const max = Math.ceil(Math.max(...values));
+    if (lightMetric === 'pupil') return { ...axis, min: 0, max: Math.max(1, max) };
+    return { ...axis, min: Math.min(0, Math.floor(Math.min(...values))), max: Math.max(0, max) };
+  };
+
+  return (
+    <MetricChartPage
+      storageKey={SELECTION_STORAGE_KEY}
+      title={t('light.title')}
+      subtitle={t('light.subtitle')}
+      tableTitle={t('light.tableTitle')}
+      measure={measure}
+      tooltipLines={tooltipLines}
+      yAxis={yAxis}
+      tableCell={tableCell}
+      derivedField="equivalentAperture"
+      legend={{
+        native: t('light.legend.native'),
+        crop: t('light.legend.crop'),
+        calculated: t('light.legend.calculated'),
+        notes: [t('light.legend.metric', { name: metricName, hint: t(`light.metricHint.${lightMetric}`, { reference: referenceName }) })]
+      }}
+      controls={() => (
+        <div className="flex flex-wrap justify-center items-center gap-2 mt-3" role="group" aria-label={t('light.metric.label')}>
+          <span className="text-xs text-gray-400">{t('light.metric.label')}</span>
+          {LIGHT_METRICS.map(metric => (
+            <button
+              key={metric}
+              onClick={() => setLightMetric(metric)}
+              aria-pressed={lightMetric === metric}
+              title={t(`light.metricHint.${metric}`, { reference: referenceName })}
+              className={`px-3 py-1 rounded-full text-xs font-medium transition-colors border ${
+                lightMetric === metric
+                  ? 'bg-gray-700 text-white border-gray-500'
+                  : 'bg-transparent text-gray-400 border-gray-600 hover:bg-gray-700/40'
+              }`}
+            >
+              {t(`light.metric.${metric}`)}
+            </button>
+          ))}
+        </div>
+      )}
+    />
+  );
+}
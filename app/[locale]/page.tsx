@@ -0,0 +1,247 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { useI18n } from '../../lib/i18n/context';
+
+export default function HomePage() {
+  const { t, href } = useI18n();
+
+  return (
+    <div className="min-h-screen bg-black text-white flex flex-col relative overflow-hidden">
+      {/* Background Pattern */}
+      <div className="absolute inset-0 opacity-5 -z-10">
+        <div className="absolute inset-0" style={{
+          backgroundImage: `repeating-linear-gradient(45deg, transparent, transparent 35px, rgba(255,255,255,0.1) 35px, rgba(255,255,255,0.1) 70px)`,
+        }}></div>
+      </div>
+
+      {/* Header */}
+      <header className="text-center py-8 relative z-10">
+        <div className="flex items-center justify-center mb-4">
+          <div className="w-8 h-8 bg-cyan-400 rounded-lg flex items-center justify-center mr-3">
+            <span className="text-black font-bold text-sm">📱</span>
+          </div>
+          <h1 className="text-2xl font-bold text-cyan-400">{t('home.siteTitle')}</h1>
+        </div>
+        <h2 className="text-3xl sm:text-4xl font-bold text-white mb-2">{t('home.heading')}</h2>
+      </header>
+
+      {/* Main Content Grid */}
+      <main className="flex-grow container mx-auto px-4 sm:px-6 py-8 relative z-10">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-2 gap-6 max-w-4xl mx-auto">
+          
+          {/* 等效光圈 */}
+          <Link 
+            href={href('/comparison')}
+            className="group bg-gray-900/50 backdrop-blur-sm border border-gray-700 rounded-2xl p-8 hover:border-cyan-500/50 transition-all duration-300 transform hover:scale-105 hover:shadow-xl hover:shadow-cyan-500/10"
+          >
+            <div className="flex items-center mb-6">
+              <div className="w-16 h-16 bg-gradient-to-br from-purple-500 to-pink-500 rounded-xl flex items-center justify-center mr-4">
+                <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <circle cx="12" cy="12" r="3"/>
+                  <path d="M12 1v6M12 17v6M4.22 4.22l4.24 4.24M15.54 15.54l4.24 4.24M1 12h6M17 12h6M4.22 19.78l4.24-4.24M15.54 8.46l4.24-4.24"/>
+                </svg>
+              </div>
+              <div>
+                <h3 className="text-xl font-bold text-white mb-1">{t('home.cardPrefix')}</h3>
+                <h3 className="text-xl font-bold text-cyan-400">{t('home.aperture.title')}</h3>
+              </div>
+            </div>
+            <div className="text-gray-300 text-sm leading-relaxed">
+              {t('home.aperture.description')}
+            </div>
+            <div className="mt-4 text-xs text-gray-500">
+              {t('home.phoneCount')}
+            </div>
+          </Link>
+
+          {/* 等效传感器大小 - 现已启用 */}
+          <Link 
+            href={href('/sensor-size')}
+            className="group bg-gray-900/50 backdrop-blur-sm border border-gray-700 rounded-2xl p-8 hover:border-cyan-500/50 transition-all duration-300 transform hover:scale-105 hover:shadow-xl hover:shadow-cyan-500/10"
+          >
+            <div className="flex items-center mb-6">
+              <div className="w-16 h-16 bg-gradient-to-br from-green-500 to-blue-500 rounded-xl flex items-center justify-center mr-4">
+                <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <rect x="2" y="3" width="20" height="14" rx="2" ry="2"/>
+                  <line x1="8" y1="21" x2="16" y2="21"/>
+                  <line x1="12" y1="17" x2="12" y2="21"/>
+                </svg>
+              </div>
+              <div>
+                <h3 className="text-xl font-bold text-white mb-1">{t('home.cardPrefix')}</h3>
+                <h3 className="text-xl font-bold text-cyan-400">{t('home.sensor.title')}</h3>
+              </div>
+            </div>
+            <div className="text-gray-300 text-sm leading-relaxed">
+              {t('home.sensor.description')}
+            </div>
+            <div className="mt-4 text-xs text-gray-500">
+              {t('home.phoneCount')}
+            </div>
+          </Link>
+
+          {/* 进光量 */}
+          <Link 
+            href={href('/light')}
+            className="group bg-gray-900/50 backdrop-blur-sm border border-gray-700 rounded-2xl p-8 hover:border-cyan-500/50 transition-all duration-300 transform hover:scale-105 hover:shadow-xl hover:shadow-cyan-500/10"
+          >
+            <div className="flex items-center mb-6">
+              <div className="w-16 h-16 bg-gradient-to-br from-amber-400 to-red-500 rounded-xl flex items-center justify-center mr-4">
+                <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <circle cx="12" cy="12" r="4"/>
+                  <path d="M12 2v2M12 20v2M4.93 4.93l1.41 1.41M17.66 17.66l1.41 1.41M2 12h2M20 12h2M4.93 19.07l1.41-1.41M17.66 6.34l1.41-1.41"/>
+                </svg>
+              </div>
+              <div>
+                <h3 className="text-xl font-bold text-white mb-1">{t('home.cardPrefix')}</h3>
+                <h3 className="text-xl font-bold text-cyan-400">{t('home.light.title')}</h3>
+              </div>
+            </div>
+            <div className="text-gray-300 text-sm leading-relaxed">
+              {t('home.light.description')}
+            </div>
+            <div className="mt-4 text-xs text-gray-500">
+              {t('home.phoneCount')}
+            </div>
+          </Link>
+
+          {/* 变焦分辨率 */}
+          <Link 
+            href={href('/resolution')}
+            className="group bg-gray-900/50 backdrop-blur-sm border border-gray-700 rounded-2xl p-8 hover:border-cyan-500/50 transition-all duration-300 transform hover:scale-105 hover:shadow-xl hover:shadow-cyan-500/10"
+          >
+            <div className="flex items-center mb-6">
+              <div className="w-16 h-16 bg-gradient-to-br from-teal-400 to-emerald-600 rounded-xl flex items-center justify-center mr-4">
+                <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <rect x="3" y="3" width="18" height="18" rx="1"/>
+                  <rect x="8" y="8" width="8" height="8"/>
+                  <path d="M3 9h5M3 15h5M16 9h5M16 15h5M9 3v5M15 3v5M9 16v5M15 16v5"/>
+                </svg>
+              </div>
+              <div>
+                <h3 className="text-xl font-bold text-white mb-1">{t('home.cardPrefix')}</h3>
+                <h3 className="text-xl font-bold text-cyan-400">{t('home.resolution.title')}</h3>
+              </div>
+            </div>
+            <div className="text-gray-300 text-sm leading-relaxed">
+              {t('home.resolution.description')}
+            </div>
+            <div className="mt-4 text-xs text-gray-500">
+              {t('home.phoneCount')}
+            </div>
+          </Link>
+
+          {/* 景深与虚化 */}
+          <Link 
+            href={href('/depth')}
+            className="group bg-gray-900/50 backdrop-blur-sm border border-gray-700 rounded-2xl p-8 hover:border-cyan-500/50 transition-all duration-300 transform hover:scale-105 hover:shadow-xl hover:shadow-cyan-500/10"
+          >
+            <div className="flex items-center mb-6">
+              <div className="w-16 h-16 bg-gradient-to-br from-indigo-500 to-cyan-500 rounded-xl flex items-center justify-center mr-4">
+                <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <circle cx="8" cy="12" r="3"/>
+                  <circle cx="17" cy="12" r="5" strokeDasharray="2 2"/>
+                </svg>
+              </div>
+              <div>
+                <h3 className="text-xl font-bold text-white mb-1">{t('home.cardPrefix')}</h3>
+                <h3 className="text-xl font-bold text-cyan-400">{t('home.depth.title')}</h3>
+              </div>
+            </div>
+            <div className="text-gray-300 text-sm leading-relaxed">
+              {t('home.depth.description')}
+            </div>
+          </Link>
+
+          {/* 衍射与像素 */}
+          <Link 
+            href={href('/diffraction')}
+            className="group bg-gray-900/50 backdrop-blur-sm border border-gray-700 rounded-2xl p-8 hover:border-cyan-500/50 transition-all duration-300 transform hover:scale-105 hover:shadow-xl hover:shadow-cyan-500/10"
+          >
+            <div className="flex items-center mb-6">
+              <div className="w-16 h-16 bg-gradient-to-br from-fuchsia-500 to-purple-700 rounded-xl flex items-center justify-center mr-4">
+                <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <circle cx="12" cy="12" r="2"/>
+                  <circle cx="12" cy="12" r="5"/>
+                  <circle cx="12" cy="12" r="8.5"/>
+                </svg>
+              </div>
+              <div>
+                <h3 className="text-xl font-bold text-white mb-1">{t('home.cardPrefix')}</h3>
+                <h3 className="text-xl font-bold text-cyan-400">{t('home.diffraction.title')}</h3>
+              </div>
+            </div>
+            <div className="text-gray-300 text-sm leading-relaxed">
+              {t('home.diffraction.description')}
+            </div>
+          </Link>
+
+          {/* 数据更新记录 */}
+          <Link 
+            href={href('/changelog')}
+            className="group bg-gray-900/50 backdrop-blur-sm border border-gray-700 rounded-2xl p-8 hover:border-cyan-500/50 transition-all duration-300 transform hover:scale-105 hover:shadow-xl hover:shadow-cyan-500/10"
+          >
+            <div className="flex items-center mb-6">
+              <div className="w-16 h-16 bg-gradient-to-br from-yellow-500 to-orange-500 rounded-xl flex items-center justify-center mr-4">
+                <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"/>
+                  <polyline points="14 2 14 8 20 8"/>
+                  <line x1="8" y1="13" x2="16" y2="13"/>
+                  <line x1="8" y1="17" x2="16" y2="17"/>
+                </svg>
+              </div>
+              <div>
+                <h3 className="text-xl font-bold text-white mb-1">{t('home.changelog.prefix')}</h3>
+                <h3 className="text-xl font-bold text-cyan-400">{t('home.changelog.title')}</h3>
+              </div>
+            </div>
+            <div className="text-gray-300 text-sm leading-relaxed">
+              {t('home.changelog.description')}
+            </div>
+          </Link>
+
+          {/* 预留位置2 */}
+          <div className="group bg-gray-900/20 backdrop-blur-sm border border-gray-600/30 rounded-2xl p-8 opacity-40">
+            <div className="flex items-center mb-6">
+              <div className="w-16 h-16 bg-gradient-to-br from-gray-600 to-gray-700 rounded-xl flex items-center justify-center mr-4">
+                <svg className="w-8 h-8 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <circle cx="12" cy="12" r="10"/>
+                  <line x1="12" y1="8" x2="12" y2="12"/>
+                  <line x1="12" y1="16" x2="12.01" y2="16"/>
+                </svg>
+              </div>
+              <div>
+                <h3 className="text-xl font-bold text-gray-600 mb-1">{t('home.more.title')}</h3>
+                <h3 className="text-xl font-bold text-gray-600">{t('home.more.subtitle')}</h3>
+              </div>
+            </div>
+            <div className="text-gray-600 text-sm leading-relaxed">
+              {t('home.more.description')}
+            </div>
+          </div>
+
+        </div>
+      </main>
+
+      {/* Footer */}
+      <footer className="text-center py-6 relative z-10">
+        <div className="flex justify-center items-center gap-6 mb-4">
+          <div className="w-8 h-8 bg-gray-700 rounded-lg flex items-center justify-center">
+            <span className="text-gray-300 text-xs">📱</span>
+          </div>
+          <div className="w-8 h-8 bg-gray-700 rounded-lg flex items-center justify-center">
+            <span className="text-gray-300 text-xs">📊</span>
+          </div>
+          <div className="w-8 h-8 bg-gray-700 rounded-lg flex items-center justify-center">
+            <span className="text-gray-300 text-xs">🔧</span>
+          </div>
+        </div>
+        <div className="text-xs text-gray-500">
+          沪ICP备2024064913号
+        </div>
+      </footer>
+    </div>
+  );
+} 
\ No newline at end of file
@@ -0,0 +1,109 @@
+'use client';
+
+import React, { useCallback, useState } from 'react';
+import type { LensInfo } from '../../../lib/schema';
+import { croppedMegapixels, cropStartFocalLength, equivalentPixelPitch, RESOLUTION_METRICS, resolutionMetricValue, zoomCropRatio } from '../../../lib/optics';
+import type { ResolutionMetric } from '../../../lib/optics';
+import { lensSensorResolution, megapixelsAtFocalLength } from '../../../lib/sensors';
+import { useI18n } from '../../../lib/i18n/context';
+import type { Translator } from '../../../lib/i18n';
+import MetricChartPage from '../MetricChartPage';
+import type { MetricSourceDataset, MetricYAxis } from '../MetricChartPage';
+
+// 已选机型的 localStorage key
+const SELECTION_STORAGE_KEY = 'resolution:selectedPhones';
+
+// 输出像素 Y 轴（对数刻度）的刻度
+const MEGAPIXEL_TICKS = [1, 2, 5, 12, 25, 50, 100, 200];
+
+/**
+ * 按指标显示数值，如 "12.5MP"、"2.4µm"；10MP 以上的像素数不保留小数
+ */
+function formatResolutionValue(metric: ResolutionMetric, value: number, t: Translator): string {
+  if (metric === 'pixelPitch') return t('resolution.value.pixelPitch', { value: value.toFixed(1) });
+  return t('resolution.value.megapixels', { value: value >= 10 ? value.toFixed(0) : value.toFixed(1) });
+}
+
+export default function PhoneResolutionComparison() {
+  const { t } = useI18n();
+  const [resolutionMetric, setResolutionMetric] = useState<ResolutionMetric>('megapixels');
+
+  const metricName = t(`resolution.metric.${resolutionMetric}`);
+
+  // 曲线点位的输出像素，y 为所选指标；传感器未登记（不知道分辨率）的镜头不画
+  const measure = useCallback((lens: LensInfo, focalLength: number, dataset: MetricSourceDataset) => {
+    const resolution = lensSensorResolution(dataset.lensDetails?.[lens.focalLength.toString()]);
+    if (resolution === null) return null;
+    const megapixels = croppedMegapixels(resolution, zoomCropRatio(cropStartFocalLength(lens, focalLength), focalLength));
+    return { y: resolutionMetricValue(megapixels, resolutionMetric), measurement: megapixels };
+  }, [resolutionMetric]);
+
+  const tableCell = useCallback((focalLength: number, dataset: MetricSourceDataset) => {
+    const megapixels = megapixelsAtFocalLength(focalLength, dataset.originalLenses || [], dataset.lensDetails);
+    return megapixels === null ? null : { text: formatResolutionValue(resolutionMetric, resolutionMetricValue(megapixels, resolutionMetric), t) };
+  }, [resolutionMetric, t]);
+
+  // 提示框中的输出像素与等效像素间距
+  const tooltipLines = (megapixels: number) => [
+    t('tooltip.outputMegapixels', { value: formatResolutionValue('megapixels', megapixels, t) }),
+    t('tooltip.equivalentPixelPitch', { value: formatResolutionValue('pixelPitch', equivalentPixelPitch(megapixels), t) })
+  ];
+
+  // 输出像素跨越两个数量级，用对数刻度并按刻度取整；等效像素间距从 0 开始
+  const yAxis = (values: number[]): MetricYAxis => {
+    const tickLabel = (value: number) => formatResolutionValue(resolutionMetric, value, t);
+    const title = t(`resolution.yAxis.${resolutionMetric}`);
+    if (resolutionMetric === 'pixelPitch') {
+      return { title, tickLabel, min: 0, max: values.length > 0 ? Math.max(1, Math.ceil(Math.max(...values))) : 10 };
+    }
+    const axis = { type: 'logarithmic' as const, title, tickLabel, ticks: MEGAPIXEL_TICKS };
+    if (values.length === 0) return { ...axis, min: 1, max: 200 };
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    return {
+      ...axis,
+      min: [...MEGAPIXEL_TICKS].reverse().find(tick => tick <= min) ?? Math.min(1, min),
+      max: MEGAPIXEL_TICKS.find(tick => tick >= max) ?? max
+    };
+  };
+
+  return (
+    <MetricChartPage
+      storageKey={SELECTION_STORAGE_KEY}
+      title={t('resolution.title')}
+      subtitle={t('resolution.subtitle')}
+      tableTitle={t('resolution.tableTitle')}
+      measure={measure}
+      tooltipLines={tooltipLines}
+      yAxis={yAxis}
+      tableCell={tableCell}
+      legend={{
+        native: t('resolution.legend.native'),
+        crop: t('resolution.legend.crop'),
+        calculated: t('resolution.legend.calculated'),
+        notes: [t('resolution.legend.metric', { name: metricName, hint: t(`resolution.metricHint.${resolutionMetric}`) })],
+        unavailable: t('resolution.legend.unregistered')
+      }}
+      controls={() => (
+        <div className="flex flex-wrap justify-center items-center gap-2 mt-3" role="group" aria-label={t('resolution.metric.label')}>
+          <span className="text-xs text-gray-400">{t('resolution.metric.label')}</span>
+          {RESOLUTION_METRICS.map(metric => (
+            <button
+              key={metric}
+              onClick={() => setResolutionMetric(metric)}
+              aria-pressed={resolutionMetric === metric}
+              title={t(`resolution.metricHint.${metric}`)}
+              className={`px-3 py-1 rounded-full text-xs font-medium transition-colors border ${
+                resolutionMetric === metric
+                  ? 'bg-gray-700 text-white border-gray-500'
+                  : 'bg-transparent text-gray-400 border-gray-600 hover:bg-gray-700/40'
+              }`}
+            >
+              {t(`resolution.metric.${metric}`)}
+            </button>
+          ))}
+        </div>
+      )}
+    />
+  );
+}
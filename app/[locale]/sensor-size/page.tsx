@@ -0,0 +1,203 @@
+'use client';
+
+import React, { useCallback, useState } from 'react';
+import type { LensInfo } from '../../../lib/schema';
+import { calculateEquivalentSensorMetric, calculateEquivalentSensorSize, coversOptically, cropStartFocalLength, DEFAULT_SENSOR_SIZE_CONVENTION, formatSensorSize, parseSensorSize, selectBasisLens, SENSOR_SIZE_CONVENTIONS, SENSOR_SIZE_METRICS } from '../../../lib/optics';
+import type { SensorSizeConvention, SensorSizeMetric } from '../../../lib/optics';
+import { lensSensorFormat } from '../../../lib/sensors';
+import { useI18n } from '../../../lib/i18n/context';
+import type { Translator } from '../../../lib/i18n';
+import MetricChartPage from '../MetricChartPage';
+import type { MetricSourceDataset, MetricYAxis } from '../MetricChartPage';
+
+// 已选机型的 localStorage key
+const SELECTION_STORAGE_KEY = 'sensor-size:selectedPhones';
+
+interface SensorAxisDefinition {
+  /** 英寸型号的数值，如 1/1.25 */
+  value: number;
+  /** 刻度标签，如 "1/1.25" */
+  label: string;
+}
+
+// 英寸型号刻度：4/3、1/1、1/1.25 …… 1/5，按尺寸从大到小等距排列
+const CUSTOM_SENSOR_Y_AXIS_DEFINITIONS: SensorAxisDefinition[] = [];
+for (let d = 0.75; d <= 5; d += 0.25) {
+  const label = d === 0.75 ? '4/3' : Number.isInteger(d) ? `1/${d}` : `1/${d.toFixed(2).replace(/\.?0+$/, '')}`;
+  CUSTOM_SENSOR_Y_AXIS_DEFINITIONS.push({ value: 1 / d, label });
+}
+CUSTOM_SENSOR_Y_AXIS_DEFINITIONS.sort((a, b) => b.value - a.value);
+
+/**
+ * 英寸型号在等距刻度上的位置：第 i 个刻度位于 i，刻度之间线性插值，超出范围时取两端
+ */
+function mapSensorValueToEquidistantYPosition(sensorValue: number): number {
+  const definitions = CUSTOM_SENSOR_Y_AXIS_DEFINITIONS;
+  if (sensorValue >= definitions[0].value) return 0;
+
+  for (let i = 0; i < definitions.length - 1; i++) {
+    const upper = definitions[i];
+    const lower = definitions[i + 1];
+    if (sensorValue <= upper.value && sensorValue > lower.value) {
+      return (i + 1) - (sensorValue - lower.value) / (upper.value - lower.value);
+    }
+  }
+
+  return definitions.length - 1;
+}
+
+/** Y 轴刻度：英寸型号（等距分类刻度），或按实际尺寸的面积、裁切系数、相对 1 英寸的档数 */
+type SensorScale = 'category' | SensorSizeMetric;
+
+const SENSOR_SCALES: SensorScale[] = ['category', ...SENSOR_SIZE_METRICS];
+
+// 等效传感器大小（按换算约定的英寸型号），以及非英寸型号刻度下的数值
+interface SensorMeasurement {
+  size: number;
+  metric: number | null;
+}
+
+/**
+ * 按刻度显示数值，如 "45.2mm²"、"3.47x"、"-1.3 档"；刻度标签（precise 为 false）去掉多余的小数位
+ */
+function formatMetricValue(metric: SensorSizeMetric, value: number, t: Translator, precise = true): string {
+  const digits = metric === 'cropFactor' ? 2 : 1;
+  const text = precise ? value.toFixed(digits) : String(Number(value.toFixed(2)));
+  if (metric === 'stops') return t('sensor.value.stops', { value: value > 0 ? `+${text}` : text });
+  return t(`sensor.value.${metric}`, { value: text });
+}
+
+export default function PhoneSensorSizeComparison() {
+  const { t } = useI18n();
+  const [sizeConvention, setSizeConvention] = useState<SensorSizeConvention>(DEFAULT_SENSOR_SIZE_CONVENTION);
+  const [sensorScale, setSensorScale] = useState<SensorScale>('category');
+
+  // 当前尺寸换算约定的名称，显示在 Y 轴标题与提示框中
+  const conventionName = t(`sensor.convention.${sizeConvention}`);
+
+  // 镜头在某一焦距的等效传感器大小：从裁切起点按焦距比例缩小；没有传感器规格的镜头为 null
+  const measureLens = useCallback((lens: LensInfo, focalLength: number, dataset: MetricSourceDataset): SensorMeasurement | null => {
+    // 已登记的传感器按实际尺寸换算，否则按英寸型号估算
+    const format = lensSensorFormat(dataset.lensDetails?.[lens.focalLength.toString()]);
+    if (!format) return null;
+    // 连续光学变焦镜头在焦段内不裁切，超出焦段后从长焦端开始裁切
+    const cropStart = cropStartFocalLength(lens, focalLength);
+    return {
+      size: calculateEquivalentSensorSize(format, cropStart, focalLength, sizeConvention),
+      metric: sensorScale === 'category' ? null : calculateEquivalentSensorMetric(format, cropStart, focalLength, sensorScale)
+    };
+  }, [sizeConvention, sensorScale]);
+
+  // 曲线点位：英寸型号刻度按 convention 换算后放到等距刻度上，其他刻度按实际尺寸计算
+  const measure = useCallback((lens: LensInfo, focalLength: number, dataset: MetricSourceDataset) => {
+    const measurement = measureLens(lens, focalLength, dataset);
+    if (!measurement) return null;
+    return { y: measurement.metric ?? mapSensorValueToEquidistantYPosition(measurement.size), measurement };
+  }, [measureLens]);
+
+  // 表格中的等效传感器大小：不向更广角模拟，使用覆盖该焦距或小于它的最近镜头
+  const tableCell = useCallback((focalLength: number, dataset: MetricSourceDataset) => {
+    const lenses = dataset.originalLenses || [];
+    const nativeLens = lenses.find(lens => coversOptically(lens, focalLength));
+    const lens = nativeLens && lensSensorFormat(dataset.lensDetails?.[nativeLens.focalLength.toString()]) ? nativeLens : selectBasisLens(focalLength, lenses);
+    const measurement = lens ? measureLens(lens, focalLength, dataset) : null;
+    if (!lens || !measurement) return null;
+
+    const text = sensorScale !== 'category' && measurement.metric !== null ? formatMetricValue(sensorScale, measurement.metric, t) : formatSensorSize(measurement.size);
+    // 原生焦段的换算值与标称型号不同时，在下方列出标称型号
+    const nominal = dataset.lensDetails?.[lens.focalLength.toString()]?.sensorSize;
+    const showNominal = lens === nativeLens && sensorScale === 'category' && sizeConvention !== 'nominal'
+      && nominal && formatSensorSize(parseSensorSize(nominal)) !== formatSensorSize(measurement.size);
+    return showNominal ? { text, detail: nominal, detailTitle: t('sensor.convention.nominal') } : { text };
+  }, [measureLens, sensorScale, sizeConvention, t]);
+
+  // 提示框中的等效传感器大小，按当前 Y 轴刻度显示
+  const tooltipLines = ({ size, metric }: SensorMeasurement) => [sensorScale !== 'category' && metric !== null
+    ? t('tooltip.sensorMetric', { name: t(`sensor.scale.${sensorScale}`), value: formatMetricValue(sensorScale, metric, t) })
+    : t('tooltip.equivalentSensorSize', { value: formatSensorSize(size), convention: conventionName })];
+
+  // 分类刻度按英寸型号等距排列；其他刻度为实际数值。更大的传感器都在上方（裁切系数越小越大）
+  const yAxis = (): MetricYAxis => {
+    if (sensorScale === 'category') {
+      return {
+        title: t('sensor.yAxis', { convention: conventionName }),
+        reverse: true,
+        min: 0,
+        max: CUSTOM_SENSOR_Y_AXIS_DEFINITIONS.length - 1,
+        ticks: CUSTOM_SENSOR_Y_AXIS_DEFINITIONS.map((_, index) => index),
+        tickLabel: value => CUSTOM_SENSOR_Y_AXIS_DEFINITIONS[value]?.label || ''
+      };
+    }
+    return {
+      title: t(`sensor.scaleAxis.${sensorScale}`),
+      reverse: sensorScale === 'cropFactor',
+      min: sensorScale === 'area' ? 0 : undefined,
+      tickLabel: value => formatMetricValue(sensorScale, value, t, false)
+    };
+  };
+
+  return (
+    <MetricChartPage
+      storageKey={SELECTION_STORAGE_KEY}
+      title={t('sensor.title')}
+      subtitle={t('sensor.subtitle')}
+      tableTitle={t('sensor.tableTitle')}
+      measure={measure}
+      tooltipLines={tooltipLines}
+      yAxis={yAxis}
+      tableCell={tableCell}
+      focalAxisModes
+      legend={{
+        native: t('sensor.legend.native'),
+        crop: t('sensor.legend.crop'),
+        calculated: t('sensor.legend.calculated'),
+        notes: [sensorScale === 'category'
+          ? t('sensor.legend.convention', { name: conventionName, hint: t(`sensor.conventionHint.${sizeConvention}`) })
+          : t('sensor.legend.scale', { name: t(`sensor.scale.${sensorScale}`), hint: t(`sensor.scaleHint.${sensorScale}`) })]
+      }}
+      controls={() => (
+        <>
+          <div className="flex flex-wrap justify-center items-center gap-2 mt-3" role="group" aria-label={t('sensor.scale.label')}>
+            <span className="text-xs text-gray-400">{t('sensor.scale.label')}</span>
+            {SENSOR_SCALES.map(scale => (
+              <button
+                key={scale}
+                onClick={() => setSensorScale(scale)}
+                aria-pressed={sensorScale === scale}
+                title={t(`sensor.scaleHint.${scale}`)}
+                className={`px-3 py-1 rounded-full text-xs font-medium transition-colors border ${
+                  sensorScale === scale
+                    ? 'bg-gray-700 text-white border-gray-500'
+                    : 'bg-transparent text-gray-400 border-gray-600 hover:bg-gray-700/40'
+                }`}
+              >
+                {t(`sensor.scale.${scale}`)}
+              </button>
+            ))}
+          </div>
+          {/* 换算约定只影响英寸型号，其他刻度按实际尺寸计算 */}
+          {sensorScale === 'category' && (
+            <div className="flex flex-wrap justify-center items-center gap-2 mt-3" role="group" aria-label={t('sensor.convention.label')}>
+              <span className="text-xs text-gray-400">{t('sensor.convention.label')}</span>
+              {SENSOR_SIZE_CONVENTIONS.map(convention => (
+                <button
+                  key={convention}
+                  onClick={() => setSizeConvention(convention)}
+                  aria-pressed={sizeConvention === convention}
+                  title={t(`sensor.conventionHint.${convention}`)}
+                  className={`px-3 py-1 rounded-full text-xs font-medium transition-colors border ${
+                    sizeConvention === convention
+                      ? 'bg-gray-700 text-white border-gray-500'
+                      : 'bg-transparent text-gray-400 border-gray-600 hover:bg-gray-700/40'
+                  }`}
+                >
+                  {t(`sensor.convention.${convention}`)}
+                </button>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    />
+  );
+}
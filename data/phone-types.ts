@@ -1,36 +1,2 @@
-
-export interface CameraLens {
-  sensor: string;
-  sensorSize: string;
-  focalLength: string;
-  aperture: string;
-  equivalentAperture: string;
-}
-
-export interface PhoneData {
-  name: string;
-  releaseDate: string;
-  level: string;
-  ultraWide: CameraLens;
-  main: CameraLens;
-  telephoto: CameraLens;
-  superTelephoto: CameraLens;
-}
-
-export interface ChartDataset {
-  label: string;
-  data: (number | null)[];
-  borderColor: string;
-  backgroundColor: string;
-  tension: number;
-  brand: string;
-}
-
-export interface PhoneBrandData {
-  [brand: string]: PhoneData[];
-}
-
-export interface ChartData {
-  labels: string[];
-  datasets: ChartDataset[];
-}
+// 数据结构统一定义在 lib/schema，此文件仅为兼容旧的引用路径
+export type { ChartData, ChartDataset, LensDetail, LensInfo, LensRole, PhoneBrandData, PhoneData } from '../lib/schema';
@@ -1,4 +1,4 @@
-export interface PhoneData {
+export interface PhoneSummary {
   name: string;
   releaseDate: string;
   aperture: string;
@@ -46,7 +46,7 @@ export const phoneData = {
       aperture: 'f/1.95-f/4.1', 
       focalLength: '13-120mm' 
     },
-  ] as PhoneData[],
+  ] as PhoneSummary[],
   
   samsung: [
     { 
@@ -79,7 +79,7 @@ export const phoneData = {
       aperture: 'f/1.8-f/3.0', 
       focalLength: '13-120mm' 
     },
-  ] as PhoneData[],
+  ] as PhoneSummary[],
   
   apple: [
     { 
@@ -106,7 +106,7 @@ export const phoneData = {
       aperture: 'f/1.6-f/2.2', 
       focalLength: '13-65mm' 
     },
-  ] as PhoneData[],
+  ] as PhoneSummary[],
   
   huawei: [
     { 
@@ -127,7 +127,7 @@ export const phoneData = {
       aperture: 'f/1.4-f/3.5', 
       focalLength: '13-125mm' 
     },
-  ] as PhoneData[],
+  ] as PhoneSummary[],
   
   oppo: [
     { 
@@ -142,7 +142,7 @@ export const phoneData = {
       aperture: 'f/1.8-f/2.6', 
       focalLength: '14-110mm' 
     },
-  ] as PhoneData[],
+  ] as PhoneSummary[],
   
   vivo: [
     { 
@@ -157,7 +157,7 @@ export const phoneData = {
       aperture: 'f/1.75-f/3.5', 
       focalLength: '14-90mm' 
     },
-  ] as PhoneData[],
+  ] as PhoneSummary[],
 };
 
 // 图表数据
@@ -0,0 +1,74 @@
+import registry from '../data/brands.json';
+import { assertBrandRegistry } from './schema';
+import type { BrandInfo } from './schema';
+
+/**
+ * 品牌登记表：显示名称、工作表名称、曲线颜色与图标都来自 data/brands.json，
+ * 数据转换、Excel 导入导出和各页面共用，新增品牌只需编辑该文件
+ */
+
+/** 按登记顺序排列的全部品牌 */
+export const BRANDS: BrandInfo[] = assertBrandRegistry(registry);
+
+/** 未登记品牌使用的颜色 */
+export const FALLBACK_BRAND_COLOR = '#4A5568';
+const FALLBACK_PALETTE = ['#666666'];
+
+const BRANDS_BY_KEY = new Map(BRANDS.map(brand => [brand.key, brand]));
+
+export function getBrand(key: string): BrandInfo | undefined {
+  return BRANDS_BY_KEY.get(key);
+}
+
+/**
+ * 品牌显示名称，未登记的品牌直接显示 key
+ */
+export function brandName(key: string, locale: keyof BrandInfo['names'] = 'zh'): string {
+  return getBrand(key)?.names[locale] || key;
+}
+
+/**
+ * 品牌的主色，用于标题、机型标签等
+ */
+export function brandColor(key: string): string {
+  return getBrand(key)?.palette[0] || FALLBACK_BRAND_COLOR;
+}
+
+/**
+ * 品牌的曲线颜色，同品牌机型依次使用
+ */
+export function brandPalette(key: string): string[] {
+  return getBrand(key)?.palette || FALLBACK_PALETTE;
+}
+
+/**
+ * 工作表名称 -> 品牌 key，未登记的工作表返回 null
+ */
+export function brandForSheet(sheetName: string): string | null {
+  return BRANDS.find(brand => brand.sheet === sheetName)?.key || null;
+}
+
+/**
+ * 品牌 key -> 工作表名称
+ */
+export function sheetNameForBrand(key: string): string {
+  return getBrand(key)?.sheet || `${key}机型`;
+}
+
+/**
+ * 把品牌 key、显示名称、工作表名称或其简写（xiaomi / Xiaomi / 小米 / 小米机型）解析为品牌 key
+ */
+export function resolveBrand(value: string): string | null {
+  const normalized = value.trim().toLowerCase();
+  if (!normalized) return null;
+
+  const brand = BRANDS.find(candidate => [
+    candidate.key,
+    candidate.names.zh,
+    candidate.names.en,
+    candidate.sheet,
+    candidate.sheet.replace(/机型$/, '')
+  ].some(name => name.toLowerCase() === normalized));
+  return brand ? brand.key : null;
+}
+
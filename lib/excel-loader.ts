@@ -1,4 +1,8 @@
 import * as XLSX from 'xlsx';
+import { resolveBrand } from './brands';
+import { hasBrandSheets, parseCsv, parseWorkbook } from './workbook';
+import { assertChartData, assertDataset, DatasetValidationError } from './schema';
+import type { ChartData, PhoneBrandData } from './schema';
 
 export interface ExcelLoaderConfig {
   phoneDataSheet: string;
@@ -39,7 +43,19 @@ export interface ProcessedFocalLength {
   description: string;
 }
 
+/** 支持的文件格式 */
+export type DataFileFormat = 'xlsx' | 'csv' | 'json';
+
+export interface DataLoadOptions {
+  /** 不指定时根据文件扩展名、Content-Type 或内容判断 */
+  format?: DataFileFormat;
+  /** CSV 所属品牌；不指定时从文件名（如 小米机型.csv、xiaomi.csv）或“品牌”列获取 */
+  brand?: string;
+}
+
 interface ParsedExcelData {
+  /** 品牌工作表 / CSV / 标准 JSON 解析后的数据，与 convert-data 的输出结构一致 */
+  dataset?: { phones: PhoneBrandData; chart: ChartData };
   phones?: ProcessedBrandData;
   chartDatasets?: ProcessedChartDataset[];
   focalLengthData?: ProcessedFocalLength[];
@@ -57,32 +73,106 @@ export class ExcelDataLoader {
   }
 
   /**
-   * 从URL加载Excel文件
+   * 从URL加载Excel / CSV / JSON 文件
    */
-  async loadFromUrl(url: string) {
+  async loadFromUrl(url: string, options: DataLoadOptions = {}) {
+    let response: Response;
+    try {
+      response = await fetch(url);
+    } catch (error) {
+      console.error('加载数据文件失败:', error);
+      throw new Error(`无法加载数据文件${error instanceof Error ? `：${error.message}` : ''}`);
+    }
+    // 404 等错误页不是数据文件，不当作表格解析
+    if (!response.ok) throw new Error(`无法加载数据文件：HTTP ${response.status}`);
+
     try {
-      const response = await fetch(url);
       const arrayBuffer = await response.arrayBuffer();
-      return this.parseExcel(arrayBuffer);
+      const fileName = new URL(url, 'http://localhost').pathname;
+      return this.parse(arrayBuffer, fileName, response.headers.get('content-type'), options);
     } catch (error) {
-      console.error('加载Excel文件失败:', error);
-      throw new Error('无法加载Excel文件');
+      console.error('加载数据文件失败:', error);
+      if (error instanceof DatasetValidationError) throw error;
+      throw new Error(`无法加载数据文件${error instanceof Error ? `：${error.message}` : ''}`);
     }
   }
 
   /**
-   * 从文件输入加载Excel
+   * 从文件输入加载Excel / CSV / JSON
    */
-  async loadFromFile(file: File) {
+  async loadFromFile(file: File, options: DataLoadOptions = {}) {
     try {
       const arrayBuffer = await file.arrayBuffer();
-      return this.parseExcel(arrayBuffer);
+      return this.parse(arrayBuffer, file.name, file.type, options);
     } catch (error) {
-      console.error('解析Excel文件失败:', error);
-      throw new Error('无法解析Excel文件');
+      console.error('解析数据文件失败:', error);
+      if (error instanceof DatasetValidationError) throw error;
+      throw new Error(`无法解析数据文件${error instanceof Error ? `：${error.message}` : ''}`);
     }
   }
 
+  /**
+   * 判断文件格式：扩展名 > Content-Type > 内容
+   */
+  private detectFormat(arrayBuffer: ArrayBuffer, fileName: string, contentType: string | null): DataFileFormat {
+    const extension = fileName.toLowerCase().match(/\.([a-z]+)$/)?.[1];
+    if (extension === 'csv') return 'csv';
+    if (extension === 'json') return 'json';
+    if (extension === 'xlsx' || extension === 'xls') return 'xlsx';
+
+    if (contentType?.includes('csv')) return 'csv';
+    if (contentType?.includes('json')) return 'json';
+
+    // xlsx 是 zip 文件，以 "PK" 开头
+    const bytes = new Uint8Array(arrayBuffer.slice(0, 2));
+    if (bytes[0] === 0x50 && bytes[1] === 0x4b) return 'xlsx';
+    const head = new TextDecoder().decode(arrayBuffer.slice(0, 64)).replace(/^\uFEFF/, '').trimStart();
+    return head.startsWith('{') ? 'json' : 'csv';
+  }
+
+  private parse(arrayBuffer: ArrayBuffer, fileName: string, contentType: string | null, options: DataLoadOptions): ParsedExcelData {
+    const format = options.format || this.detectFormat(arrayBuffer, fileName, contentType);
+    if (format === 'xlsx') return this.parseExcel(arrayBuffer);
+
+    const text = new TextDecoder().decode(arrayBuffer);
+    if (format === 'json') return this.parseJson(text);
+
+    const baseName = fileName.split('/').pop()?.replace(/\.[^.]*$/, '') || '';
+    const brand = options.brand ? resolveBrand(options.brand) : resolveBrand(decodeURIComponent(baseName));
+    if (options.brand && !brand) throw new Error(`无法识别的品牌 "${options.brand}"`);
+    const parsed = parseCsv(text, brand || undefined);
+    return { dataset: assertDataset(parsed.phones, parsed.chart) };
+  }
+
+  /**
+   * 解析标准结构的 JSON：{ "phones": phones-enhanced.json, "chart": chart-enhanced.json }，
+   * 或单独的 chart-enhanced.json（机型信息由曲线数据补全，发布日期与级别为空）
+   */
+  private parseJson(text: string): ParsedExcelData {
+    const value: unknown = JSON.parse(text);
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new Error('JSON 应为 {"phones": …, "chart": …} 或 chart-enhanced.json 的结构');
+    }
+
+    if ('phones' in value && 'chart' in value) {
+      return { dataset: assertDataset(value.phones, value.chart) };
+    }
+
+    if ('datasets' in value) {
+      const chart = assertChartData(value);
+      const phones: PhoneBrandData = {};
+      chart.datasets.forEach(dataset => {
+        phones[dataset.brand] = [
+          ...(phones[dataset.brand] || []),
+          { id: dataset.id, slug: dataset.slug, name: dataset.label, releaseDate: '', releaseDateIso: dataset.releaseYear ? String(dataset.releaseYear) : null, level: '', releaseYear: dataset.releaseYear }
+        ];
+      });
+      return { dataset: assertDataset(phones, chart) };
+    }
+
+    throw new Error('JSON 应为 {"phones": …, "chart": …} 或 chart-enhanced.json 的结构');
+  }
+
   /**
    * 解析Excel数据
    */
@@ -90,6 +180,12 @@ export class ExcelDataLoader {
     const workbook = XLSX.read(arrayBuffer, { type: 'array' });
     const result: ParsedExcelData = {};
 
+    // 解析品牌工作表
+    if (hasBrandSheets(workbook)) {
+      const parsed = parseWorkbook(workbook);
+      result.dataset = assertDataset(parsed.phones, parsed.chart);
+    }
+
     // 解析手机基本信息
     if (workbook.SheetNames.includes(this.config.phoneDataSheet)) {
       const phoneSheet = workbook.Sheets[this.config.phoneDataSheet];
@@ -194,16 +290,16 @@ export function useExcelData(url?: string) {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const loadData = async (source: string | File) => {
+  const loadData = async (source: string | File, options?: DataLoadOptions) => {
     setLoading(true);
     setError(null);
     
     try {
       let result;
       if (typeof source === 'string') {
-        result = await excelLoader.loadFromUrl(source);
+        result = await excelLoader.loadFromUrl(source, options);
       } else {
-        result = await excelLoader.loadFromFile(source);
+        result = await excelLoader.loadFromFile(source, options);
       }
       setData(result);
     } catch (err) {
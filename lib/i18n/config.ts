@@ -0,0 +1,62 @@
+/**
+ * 语言与路由：页面路径以语言开头（/zh/comparison、/en/comparison），
+ * 不带语言的路径由 middleware.ts 按 cookie（语言切换时写入）或浏览器语言重定向
+ */
+
+export const LOCALES = ['zh', 'en'] as const;
+
+export type Locale = typeof LOCALES[number];
+
+export const DEFAULT_LOCALE: Locale = 'zh';
+
+/** 保存用户选择的语言 */
+export const LOCALE_COOKIE = 'NEXT_LOCALE';
+
+/** <html lang> 的值 */
+export const HTML_LANG: Record<Locale, string> = {
+  zh: 'zh-CN',
+  en: 'en'
+};
+
+/** 语言的名称，始终用该语言本身书写；short 用于语言切换按钮 */
+export const LOCALE_NAMES: Record<Locale, { full: string; short: string }> = {
+  zh: { full: '中文', short: '中' },
+  en: { full: 'English', short: 'EN' }
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (LOCALES as readonly string[]).includes(value);
+}
+
+/**
+ * 去掉路径开头的语言，如 /en/comparison -> /comparison
+ */
+export function stripLocale(pathname: string): string {
+  const [, first, ...rest] = pathname.split('/');
+  return isLocale(first) ? `/${rest.join('/')}` : pathname;
+}
+
+/**
+ * 某语言下的页面路径，如 ('en', '/comparison') -> /en/comparison
+ */
+export function localePath(locale: Locale, pathname: string): string {
+  const path = stripLocale(pathname);
+  return path === '/' ? `/${locale}` : `/${locale}${path}`;
+}
+
+/**
+ * 按 Accept-Language 选择语言，没有匹配时使用默认语言
+ */
+export function matchLocale(acceptLanguage: string | null): Locale {
+  if (!acceptLanguage) return DEFAULT_LOCALE;
+  const preferred = acceptLanguage
+    .split(',')
+    .map(part => {
+      const [tag, ...options] = part.trim().toLowerCase().split(';');
+      const quality = options.map(option => option.trim()).find(option => option.startsWith('q='));
+      return { language: tag.split('-')[0], quality: quality ? parseFloat(quality.slice(2)) : 1 };
+    })
+    .filter(({ quality }) => quality > 0)
+    .sort((a, b) => b.quality - a.quality);
+  return preferred.map(({ language }) => language).find(isLocale) || DEFAULT_LOCALE;
+}
@@ -0,0 +1,57 @@
+'use client';
+
+import React, { createContext, useContext, useMemo } from 'react';
+import { brandName } from '../brands';
+import type { PhoneNameLabels } from '../phone-names';
+import { lensDisplayName, LENS_ROLE_NAMES } from '../schema';
+import type { LensRole } from '../schema';
+import { DEFAULT_LOCALE, localePath } from './config';
+import type { Locale } from './config';
+import { createTranslator, formatReleaseDate } from './translate';
+import type { Translator } from './translate';
+
+/**
+ * 页面中使用的翻译函数与按语言显示的名称，由 app/[locale]/layout.tsx 按路径中的语言提供
+ */
+
+export interface I18nContextValue {
+  locale: Locale;
+  t: Translator;
+  /** 当前语言下的页面路径 */
+  href: (pathname: string) => string;
+  brandName: (brand: string) => string;
+  /** 镜头名称：自定义名称（如 "长焦2"）保持原样，用途名称按语言显示 */
+  lensName: (lens: { role: LensRole; label?: string }) => string;
+  releaseDate: (phone: { releaseDate: string; releaseDateIso: string | null }) => string;
+  /** describePhoneNames 的各行标题 */
+  phoneNameLabels: PhoneNameLabels;
+}
+
+function createContextValue(locale: Locale): I18nContextValue {
+  const t = createTranslator(locale);
+  return {
+    locale,
+    t,
+    href: pathname => localePath(locale, pathname),
+    brandName: brand => brandName(brand, locale),
+    lensName: lens => (lens.label && lens.label !== LENS_ROLE_NAMES[lens.role] ? lensDisplayName(lens) : t(`lensRole.${lens.role}`)),
+    releaseDate: phone => formatReleaseDate(locale, phone) || t('common.unknownDate'),
+    phoneNameLabels: {
+      en: t('phoneNames.en'),
+      zh: t('phoneNames.zh'),
+      aliases: t('phoneNames.aliases'),
+      codenames: t('phoneNames.codenames')
+    }
+  };
+}
+
+const I18nContext = createContext<I18nContextValue>(createContextValue(DEFAULT_LOCALE));
+
+export function I18nProvider({ locale, children }: { locale: Locale; children: React.ReactNode }) {
+  const value = useMemo(() => createContextValue(locale), [locale]);
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n(): I18nContextValue {
+  return useContext(I18nContext);
+}
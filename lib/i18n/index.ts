@@ -0,0 +1,3 @@
+export * from './config';
+export * from './translate';
+export type { MessageKey, Messages } from './messages/zh';
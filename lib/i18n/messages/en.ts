@@ -0,0 +1,305 @@
+import type { Messages } from './zh';
+
+/**
+ * English messages; the key set is checked against zh.ts
+ */
+export const en: Messages = {
+  'meta.title': 'Phone Camera Database – Equivalent Aperture & Sensor Size',
+  'meta.description': 'Compare the equivalent aperture and equivalent sensor size of phone rear cameras across focal lengths',
+
+  'common.back': 'Back',
+  'common.loading': 'Loading...',
+  'common.loadFailed': 'Failed to load data',
+  'common.unknownDate': 'Unknown date',
+  'common.switchLanguage': 'Switch language',
+
+  'home.siteTitle': "HANS's Phone Camera Database",
+  'home.heading': 'Phone Hardware Rankings',
+  'home.cardPrefix': 'Phone camera',
+  'home.aperture.title': 'Equivalent aperture',
+  'home.aperture.description': 'A larger equivalent aperture means better low-light images and stronger background blur.',
+  'home.sensor.title': 'Equivalent sensor size',
+  'home.sensor.description': 'A larger equivalent sensor gives a higher signal-to-noise ratio, better image quality and wider dynamic range.',
+  'home.light.title': 'Light gathering',
+  'home.light.description': 'Combines equivalent aperture and sensor size into the total light captured at each focal length; higher means better low-light performance.',
+  'home.resolution.title': 'Resolution at zoom',
+  'home.resolution.description': 'Cropping throws pixels away; compare how many megapixels remain at each focal length and how large each pixel effectively is.',
+  'home.depth.title': 'Depth of field & blur',
+  'home.depth.description': 'Pick phones, a focal length and distances to calculate depth of field and background blur.',
+  'home.diffraction.title': 'Diffraction & pixels',
+  'home.diffraction.description': "Compare the Airy disk at each lens's physical aperture with its pixel pitch and find lenses whose marketed megapixels exceed the diffraction limit.",
+  'home.phoneCount': '200+ phones in the database',
+  'home.changelog.prefix': 'Data',
+  'home.changelog.title': 'Changelog',
+  'home.changelog.description': 'Phones added and removed in each data update, and corrected lens specs.',
+  'home.more.title': 'More features',
+  'home.more.subtitle': 'Coming soon',
+  'home.more.description': 'More phone hardware comparisons are in development',
+
+  'chart.viewChart': 'Chart',
+  'chart.viewTable': 'Table',
+  'chart.cropModes.hint': 'Vendor-advertised in-sensor crop focal lengths (such as a 2x crop), marked as diamonds on the chart',
+  'chart.cropModes.show': 'Show in-sensor crops',
+  'chart.cropModes.hide': 'Hide in-sensor crops',
+  'chart.initializing': 'Chart data is still loading...',
+  'chart.noData': 'Nothing to show. Select at least one phone.',
+  'chart.hideAll': 'Hide all',
+  'chart.showAll': 'Show all',
+  'chart.xAxis': 'Equivalent focal length (mm)',
+  'chart.xAxis.diagonalFov': 'Diagonal field of view (full-frame equivalent)',
+  'chart.xAxis.horizontalFov': 'Horizontal field of view (full-frame equivalent)',
+  'chart.xAxis.zoom': "Zoom (relative to each phone's main camera)",
+  'chart.focalAxis.label': 'X axis',
+  'chart.focalAxis.focalLength': 'Focal length',
+  'chart.focalAxis.diagonalFov': 'Diagonal FOV',
+  'chart.focalAxis.horizontalFov': 'Horizontal FOV',
+  'chart.focalAxis.zoom': 'Zoom',
+
+  'table.phone': 'Phone',
+  'table.scrollHint': 'Scroll horizontally for more',
+  'table.swipeHint': 'Swipe for more',
+  'table.focalCount': '{count} focal lengths',
+  'table.zoomMain': 'main camera {focal}mm',
+  'table.cell.native': 'Native focal length',
+  'table.cell.nativeDerived': 'Native focal length (derived from physical specs)',
+  'table.cell.opticalZoom': 'Within optical zoom range',
+  'table.cell.cropMode': 'In-sensor crop',
+  'table.cell.cropModeResolution': 'In-sensor crop ({resolution}MP)',
+  'table.cell.calculated': 'Calculated',
+  'table.legend.bold': 'Bold',
+  'table.legend.italic': 'Italic',
+  'table.legend.regular': 'Regular',
+  'table.legend.separator': ': ',
+  'table.legend.unavailable': "cannot be calculated (the focal length is wider than the phone's widest lens)",
+
+  'filter.button': 'Filter',
+  'filter.clear': 'Clear',
+  'filter.years': 'Release year',
+  'filter.brands': 'Brand',
+  'filter.releaseTime': 'Release date',
+  'filter.recentMonths': 'Last {months} months',
+  'filter.monthFrom': 'From month',
+  'filter.monthTo': 'To month',
+  'filter.rangeSeparator': 'to',
+  'filter.apply': 'Apply',
+  'filter.cancel': 'Cancel',
+
+  'search.placeholder': 'Search by name, English name, alias or codename',
+  'search.label': 'Search phones',
+  'search.noResults': 'No phones match "{query}"',
+
+  'brand.collapse': 'Show less',
+  'brand.expand': 'Show more ({count})',
+
+  'tooltip.lens': 'Lens: {name}',
+  'tooltip.sensor': 'Sensor: {sensor}',
+  'tooltip.sensorSize': 'Sensor size: {size}',
+  'tooltip.sensorSpec': 'Active area: {width}×{height}mm · {pitch}µm pixels · {resolution}MP',
+  'tooltip.sensorMetric': '{name}: {value}',
+  'tooltip.focalLength': 'Equivalent focal length: {value}mm',
+  'tooltip.diagonalFov': 'Diagonal field of view: {value}',
+  'tooltip.horizontalFov': 'Horizontal field of view: {value}',
+  'tooltip.zoom': 'Zoom: {value} (main camera {main}mm)',
+  'tooltip.opticalZoom': 'Optical zoom: {from}-{to}mm',
+  'tooltip.lensAperture': 'Lens aperture: f/{value}',
+  'tooltip.equivalentAperture': 'Equivalent aperture: F{value}',
+  'tooltip.entrancePupil': 'Entrance pupil: {value}mm',
+  'tooltip.totalLight': 'Total light: {value} (vs {reference})',
+  'tooltip.backgroundBlur': 'Background blur: {value}',
+  'tooltip.outputMegapixels': 'Output resolution: {value}',
+  'tooltip.equivalentPixelPitch': 'Equivalent pixel pitch: {value}',
+  'tooltip.stopsSlower': '{value} stops darker than {reference}',
+  'tooltip.stopsFaster': '{value} stops brighter than {reference}',
+  'tooltip.stopsSame': 'Same as {reference}',
+  'tooltip.derived': ' (derived from physical specs)',
+  'tooltip.cropMode': 'In-sensor crop: {lens}{factor}x',
+  'tooltip.cropResolution': 'Output resolution: {value}MP',
+  'tooltip.equivalentSensorSize': 'Equivalent sensor size: {value} ({convention})',
+
+  'note.native': 'Native lens ({focal}mm)',
+  'note.opticalZoom': 'Optical zoom at {focal}mm ({from}-{to}mm lens)',
+  'note.cropMode': 'In-sensor crop at {focal}mm (based on {lens}mm lens)',
+  'note.segmentEnd': 'Theoretical segment end at {focal}mm (based on {lens}mm lens)',
+  'note.connector': 'Generated connector at {focal}mm (based on {lens}mm lens)',
+
+  'phoneNames.en': 'English name',
+  'phoneNames.zh': 'Chinese name',
+  'phoneNames.aliases': 'Aliases',
+  'phoneNames.codenames': 'Codenames',
+
+  'lensRole.ultraWide': 'Ultra-wide',
+  'lensRole.main': 'Main',
+  'lensRole.telephoto': 'Telephoto',
+  'lensRole.superTelephoto': 'Super telephoto',
+  'lensRole.macro': 'Macro',
+
+  'comparison.title': 'Phone Rear Cameras – Equivalent Aperture',
+  'comparison.subtitle': 'Equivalent aperture of phone rear cameras',
+  'comparison.yAxis': 'Equivalent aperture (F)',
+  'comparison.yAxisStops': 'Light vs {reference} (stops, darker downwards)',
+  'comparison.scale.label': 'Y axis',
+  'comparison.scale.fNumber': 'Equivalent aperture',
+  'comparison.scale.stops': 'Stops vs reference',
+  'comparison.reference.label': 'Reference',
+  'comparison.reference.phone': 'Phone',
+  'comparison.reference.fullFrameAperture': 'full frame f/{value}',
+  'comparison.reference.choosePhone': 'Choose a displayed phone',
+  'comparison.legend.stops': 'Stops: light difference from {reference} at the same focal length; positive means darker',
+  'comparison.tableTitle': 'Equivalent aperture table',
+  'comparison.legend.native': 'actual equivalent aperture at native focal lengths (including within optical zoom ranges)',
+  'comparison.legend.crop': 'vendor-listed in-sensor crop focal lengths (aperture calculated for the crop)',
+  'comparison.legend.calculated': 'theoretical equivalent aperture calculated from physical specs',
+
+  'sensor.title': 'Phone Rear Cameras – Equivalent Sensor Size',
+  'sensor.subtitle': 'Equivalent sensor size of phone rear cameras',
+  'sensor.yAxis': 'Equivalent sensor size (inch type, {convention})',
+  'sensor.tableTitle': 'Equivalent sensor size table',
+  'sensor.scale.label': 'Y axis',
+  'sensor.scale.category': 'Inch type',
+  'sensor.scale.area': 'Equivalent area',
+  'sensor.scale.cropFactor': 'Equivalent crop factor',
+  'sensor.scale.stops': 'Light vs 1-inch',
+  'sensor.scaleHint.category': 'Evenly spaced inch-type categories',
+  'sensor.scaleHint.area': 'Linear in active area (mm²), proportional to light-gathering area',
+  'sensor.scaleHint.cropFactor': 'Crop factor relative to full frame; smaller means a larger sensor',
+  'sensor.scaleHint.stops': 'Light gathered compared with a 1-inch type sensor (13.2×8.8mm); each doubling of area is +1 stop',
+  'sensor.scaleAxis.area': 'Equivalent sensor area (mm²)',
+  'sensor.scaleAxis.cropFactor': 'Equivalent crop factor (vs full frame)',
+  'sensor.scaleAxis.stops': 'Light gathered vs a 1-inch sensor (stops)',
+  'sensor.value.area': '{value}mm²',
+  'sensor.value.cropFactor': '{value}x',
+  'sensor.value.stops': '{value} stops',
+  'sensor.convention.label': 'Size convention',
+  'sensor.convention.nominal': 'Nominal type',
+  'sensor.convention.basis16': '16mm basis',
+  'sensor.convention.basis18': '18mm basis',
+  'sensor.convention.trueDiagonal': 'True diagonal',
+  'sensor.conventionHint.nominal': "The vendor's nominal inch type, scaled down proportionally when cropping",
+  'sensor.conventionHint.basis16': 'Active-area diagonal ÷ 16mm, the same basis for every sensor',
+  'sensor.conventionHint.basis18': 'Active-area diagonal ÷ 18mm, matching how most small phone sensors are marketed',
+  'sensor.conventionHint.trueDiagonal': 'Active-area diagonal in real inches (÷ 25.4mm), taken from the sensor datasheet',
+  'sensor.legend.native': 'actual equivalent sensor size at native focal lengths',
+  'sensor.legend.crop': 'vendor-listed in-sensor crop focal lengths',
+  'sensor.legend.calculated': 'theoretical equivalent sensor size calculated from physical specs',
+  'sensor.legend.convention': 'Size convention: {name} ({hint})',
+  'sensor.legend.scale': '{name}: {hint}',
+
+  'light.title': 'Phone Rear Cameras – Light Gathering',
+  'light.subtitle': 'Total light captured by phone rear cameras at each focal length',
+  'light.tableTitle': 'Light gathering table',
+  'light.metric.label': 'Y axis',
+  'light.metric.stops': 'Total light',
+  'light.metric.pupil': 'Entrance pupil',
+  'light.metricHint.stops': 'Light gathered over the whole frame at the same field of view and shutter speed, in stops vs {reference}; positive means more',
+  'light.metricHint.pupil': 'Entrance pupil = equivalent focal length ÷ equivalent aperture; cropping keeps the pupil but narrows the field of view',
+  'light.yAxis.stops': 'Total light vs {reference} (stops)',
+  'light.yAxis.pupil': 'Entrance pupil diameter (mm)',
+  'light.value.stops': '{value} stops',
+  'light.value.pupil': '{value}mm',
+  'light.legend.native': 'actual light gathering at native focal lengths (including within optical zoom ranges)',
+  'light.legend.crop': 'vendor-listed in-sensor crop focal lengths (calculated for the crop)',
+  'light.legend.calculated': 'theoretical light gathering calculated from physical specs with crop zoom',
+  'light.legend.metric': '{name}: {hint}',
+
+  'resolution.title': 'Phone Rear Cameras – Resolution at Zoom',
+  'resolution.subtitle': 'Megapixels left after cropping at each focal length',
+  'resolution.tableTitle': 'Output resolution table',
+  'resolution.metric.label': 'Y axis',
+  'resolution.metric.megapixels': 'Output megapixels',
+  'resolution.metric.pixelPitch': 'Equivalent pixel pitch',
+  'resolution.metricHint.megapixels': 'Sensor megapixels ÷ crop ratio²; a 2x crop keeps a quarter of the pixels',
+  'resolution.metricHint.pixelPitch': 'Pixel pitch if the same number of pixels covered a full-frame sensor; larger means more light per pixel',
+  'resolution.yAxis.megapixels': 'Output resolution (MP)',
+  'resolution.yAxis.pixelPitch': 'Equivalent pixel pitch (µm, full-frame equivalent)',
+  'resolution.value.megapixels': '{value}MP',
+  'resolution.value.pixelPitch': '{value}µm',
+  'resolution.legend.native': 'all sensor pixels at native focal lengths (including within optical zoom ranges)',
+  'resolution.legend.crop': 'vendor-listed in-sensor crop focal lengths (calculated from the crop, not the vendor output resolution)',
+  'resolution.legend.calculated': 'theoretical output resolution from the sensor resolution and crop ratio',
+  'resolution.legend.metric': '{name}: {hint}',
+  'resolution.legend.unregistered': "cannot be calculated (the focal length is wider than the phone's widest lens, or the sensor resolution is not registered)",
+
+  'depth.title': 'Depth of Field & Background Blur Calculator',
+  'depth.subtitle': "Calculated from each lens's physical focal length, physical aperture and crop factor",
+  'depth.focalLength': 'Equivalent focal length (mm)',
+  'depth.subjectDistance': 'Subject distance (m)',
+  'depth.backgroundDistance': 'Background distance (m)',
+  'depth.invalidInput': 'Focal length and distances must be greater than 0',
+  'depth.phones': 'Selected phones',
+  'depth.noPhones': 'No phones selected. Search below to add some.',
+  'depth.remove': 'Remove {name}',
+  'depth.resultsTitle': '{focal}mm, subject at {subject}m, background at {background}m',
+  'depth.column.lens': 'Lens',
+  'depth.column.equivalentAperture': 'Equivalent aperture',
+  'depth.column.physical': 'Physical focal length & aperture',
+  'depth.column.nearFar': 'In focus',
+  'depth.column.depthOfField': 'Depth of field',
+  'depth.column.blur': 'Background blur (of diagonal)',
+  'depth.column.blurSensor': 'Blur disc on sensor',
+  'depth.crop': '{ratio}x crop',
+  'depth.unavailable': "The focal length is wider than the phone's widest lens, or the lens has no crop factor",
+  'depth.infinity': '∞',
+  'depth.value.metres': '{value}m',
+  'depth.value.physical': '{focal}mm f/{aperture}',
+  'depth.value.range': '{near} – {far}',
+  'depth.value.microns': '{value}µm',
+  'depth.chartTitle': 'Background blur across focal lengths',
+  'depth.yAxis': 'Background blur (% of frame diagonal, subject {subject}m, background {background}m)',
+  'depth.note.model': 'Beyond a lens\'s focal range the crop-zoom model applies: physical focal length and aperture stay the same while the frame shrinks by the crop ratio',
+  'depth.note.coc': 'Depth of field uses a circle of confusion of 1/1500 of the frame diagonal',
+  'depth.note.blur': 'Background blur is the blur disc of a background point light; as a share of the frame diagonal it compares directly across phones',
+
+  'diffraction.title': 'Phone Rear Cameras – Diffraction & Pixel Pitch',
+  'diffraction.subtitle': "The Airy disk at each lens's physical aperture compared with the sensor pixel pitch",
+  'diffraction.flaggedOnly': 'Only lenses beyond the diffraction limit',
+  'diffraction.summary': '{flagged} of {total} lenses have more marketed megapixels than the diffraction limit allows',
+  'diffraction.column.lens': 'Lens',
+  'diffraction.column.sensor': 'Sensor',
+  'diffraction.column.physicalAperture': 'Physical aperture',
+  'diffraction.column.pixelPitch': 'Pixel pitch',
+  'diffraction.column.airyDisk': 'Airy disk',
+  'diffraction.column.ratio': 'Airy disk / pixel',
+  'diffraction.column.limitedResolution': 'Diffraction-limited resolution',
+  'diffraction.column.marketedResolution': 'Marketed resolution',
+  'diffraction.zoomEnd': 'tele end',
+  'diffraction.flag': 'Marketed resolution exceeds the diffraction limit: pixels smaller than {pitch}µm resolve no extra detail at this aperture',
+  'diffraction.value.microns': '{value}µm',
+  'diffraction.value.megapixels': '{value}MP',
+  'diffraction.note.airy': 'Airy disk diameter = 2.44 × wavelength × physical aperture, using {wavelength}nm (green light)',
+  'diffraction.note.criterion': 'Resolving detail needs at least 2 pixels per Airy disk diameter (Nyquist sampling); diffraction-limited resolution = active area ÷ (Airy disk / 2)²',
+  'diffraction.note.aperture': 'The listed physical aperture is used when available, otherwise it is derived from the equivalent aperture and conversion factor; continuous optical zoom lenses also list their tele end',
+  'diffraction.note.unregistered': 'Lenses with unregistered sensors or without a conversion factor are omitted; Bayer filters, pixel binning and lens aberrations are not considered',
+
+  'changelog.title': 'Data Changelog',
+  'changelog.subtitle': 'Phones added and removed, and spec corrections',
+  'changelog.loadFailed': 'Failed to load the changelog',
+  'changelog.empty': 'No updates yet',
+  'changelog.phoneCount': '{count} phones',
+  'changelog.lenses': 'Lenses: {lenses}',
+  'changelog.fieldSeparator': ': ',
+  'changelog.lensAdded': 'Lens added',
+  'changelog.lensRemoved': 'Lens removed',
+  'changelog.kind.added': 'Added',
+  'changelog.kind.removed': 'Removed',
+  'changelog.kind.changed': 'Corrected',
+  'changelog.field.name': 'Name',
+  'changelog.field.releaseDate': 'Release date',
+  'changelog.field.level': 'Tier',
+  'changelog.field.nameZh': 'Chinese name',
+  'changelog.field.nameEn': 'English name',
+  'changelog.field.aliases': 'Aliases',
+  'changelog.field.codenames': 'Codenames',
+  'changelog.field.variants': 'Regional variants',
+  'changelog.field.role': 'Lens type',
+  'changelog.field.focalLength': 'Equivalent focal length',
+  'changelog.field.aperture': 'Equivalent aperture',
+  'changelog.field.physicalApertureValue': 'Aperture',
+  'changelog.field.conversionFactor': 'Crop factor',
+  'changelog.field.sensor': 'Sensor',
+  'changelog.field.sensorSize': 'Sensor size',
+  'changelog.field.physicalFocalLength': 'Physical focal length',
+  'changelog.field.maxFocalLength': 'Tele-end equivalent focal length',
+  'changelog.field.maxAperture': 'Tele-end equivalent aperture',
+  'changelog.field.maxPhysicalApertureValue': 'Tele-end aperture',
+  'changelog.field.cropModes': 'In-sensor crops'
+};
@@ -0,0 +1,307 @@
+/**
+ * 中文文案，同时定义了全部文案的 key；{name} 为插值参数
+ */
+export const zh = {
+  'meta.title': '手机摄像头数据库 - 等效光圈与等效传感器大小',
+  'meta.description': '对比各机型后置摄像头在不同焦段的等效光圈与等效传感器大小',
+
+  'common.back': '返回',
+  'common.loading': '加载中...',
+  'common.loadFailed': '数据加载失败',
+  'common.unknownDate': '未知日期',
+  'common.switchLanguage': '切换语言',
+
+  'home.siteTitle': 'HANS的手机摄像头数据库',
+  'home.heading': '手机硬件排行',
+  'home.cardPrefix': '手机摄像头',
+  'home.aperture.title': '等效光圈',
+  'home.aperture.description': '等效光圈越大，暗光环境下的成像效果越好，虚化更强。',
+  'home.sensor.title': '等效传感器大小',
+  'home.sensor.description': '等效传感器大小越大，信噪比越高则画质更好，动态范围越好。',
+  'home.light.title': '进光量',
+  'home.light.description': '综合等效光圈与传感器大小，比较每个焦距下整幅画面能收集多少光，数值越高暗光表现越好。',
+  'home.resolution.title': '变焦分辨率',
+  'home.resolution.description': '裁切变焦会丢弃像素，比较每个焦距下实际剩下多少像素，以及每个像素的大小。',
+  'home.depth.title': '景深与虚化',
+  'home.depth.description': '选择机型、焦距和拍摄距离，计算景深范围与背景虚化大小。',
+  'home.diffraction.title': '衍射与像素',
+  'home.diffraction.description': '按物理光圈计算艾里斑大小，与传感器像素尺寸比较，找出标称像素超出衍射极限的镜头。',
+  'home.phoneCount': '已收录 200+ 机型数据',
+  'home.changelog.prefix': '数据',
+  'home.changelog.title': '更新记录',
+  'home.changelog.description': '每次数据更新新增、删除的机型，以及修正过的镜头规格。',
+  'home.more.title': '更多功能',
+  'home.more.subtitle': '敬请期待',
+  'home.more.description': '更多手机硬件对比功能正在开发中',
+
+  'chart.viewChart': '查看曲线',
+  'chart.viewTable': '查看表格',
+  'chart.cropModes.hint': '厂商宣传的传感器内裁切焦段（如 2x 裁切），在曲线上以菱形标出',
+  'chart.cropModes.show': '显示传感器内裁切',
+  'chart.cropModes.hide': '隐藏传感器内裁切',
+  'chart.initializing': '图表数据仍在加载或初始化...',
+  'chart.noData': '没有可显示的数据，请选择至少一个机型。',
+  'chart.hideAll': '全部隐藏',
+  'chart.showAll': '全部显示',
+  'chart.xAxis': '等效焦距 (mm)',
+  'chart.xAxis.diagonalFov': '对角线视角（全画幅等效）',
+  'chart.xAxis.horizontalFov': '水平视角（全画幅等效）',
+  'chart.xAxis.zoom': '变焦倍数（相对各机型主摄）',
+  'chart.focalAxis.label': 'X 轴',
+  'chart.focalAxis.focalLength': '等效焦距',
+  'chart.focalAxis.diagonalFov': '对角线视角',
+  'chart.focalAxis.horizontalFov': '水平视角',
+  'chart.focalAxis.zoom': '变焦倍数',
+
+  'table.phone': '机型',
+  'table.scrollHint': '横向滚动查看更多数据',
+  'table.swipeHint': '左右滑动查看更多',
+  'table.focalCount': '共 {count} 个焦段',
+  'table.zoomMain': '主摄 {focal}mm',
+  'table.cell.native': '原生焦段',
+  'table.cell.nativeDerived': '原生焦段（由物理规格推算）',
+  'table.cell.opticalZoom': '光学变焦焦段',
+  'table.cell.cropMode': '传感器内裁切',
+  'table.cell.cropModeResolution': '传感器内裁切（{resolution}MP）',
+  'table.cell.calculated': '计算值',
+  'table.legend.bold': '粗体',
+  'table.legend.italic': '斜体',
+  'table.legend.regular': '普通字体',
+  'table.legend.separator': '：',
+  'table.legend.unavailable': '无法计算（目标焦段比该机型最广角镜头更广）',
+
+  'filter.button': '筛选',
+  'filter.clear': '清除',
+  'filter.years': '发布年份',
+  'filter.brands': '品牌',
+  'filter.releaseTime': '发布时间',
+  'filter.recentMonths': '最近 {months} 个月',
+  'filter.monthFrom': '起始月份',
+  'filter.monthTo': '结束月份',
+  'filter.rangeSeparator': '至',
+  'filter.apply': '应用筛选',
+  'filter.cancel': '取消',
+
+  'search.placeholder': '搜索机型：名称、英文名、别名或代号',
+  'search.label': '搜索机型',
+  'search.noResults': '没有找到匹配“{query}”的机型',
+
+  'brand.collapse': '收起',
+  'brand.expand': '展开更多 ({count})',
+
+  'tooltip.lens': '镜头: {name}',
+  'tooltip.sensor': '传感器: {sensor}',
+  'tooltip.sensorSize': '传感器尺寸: {size}',
+  'tooltip.sensorSpec': '有效面积: {width}×{height}mm · 像素 {pitch}µm · {resolution}MP',
+  'tooltip.sensorMetric': '{name}: {value}',
+  'tooltip.focalLength': '等效焦距: {value}mm',
+  'tooltip.diagonalFov': '对角线视角: {value}',
+  'tooltip.horizontalFov': '水平视角: {value}',
+  'tooltip.zoom': '变焦倍数: {value}（主摄 {main}mm）',
+  'tooltip.opticalZoom': '光学变焦: {from}-{to}mm',
+  'tooltip.lensAperture': '镜头光圈: f/{value}',
+  'tooltip.equivalentAperture': '等效光圈: F{value}',
+  'tooltip.entrancePupil': '入瞳直径: {value}mm',
+  'tooltip.totalLight': '总进光量: {value}（相对 {reference}）',
+  'tooltip.backgroundBlur': '背景虚化: {value}',
+  'tooltip.outputMegapixels': '输出像素: {value}',
+  'tooltip.equivalentPixelPitch': '等效像素间距: {value}',
+  'tooltip.stopsSlower': '比 {reference} 暗 {value} 档',
+  'tooltip.stopsFaster': '比 {reference} 亮 {value} 档',
+  'tooltip.stopsSame': '与 {reference} 相同',
+  'tooltip.derived': '（由物理规格推算）',
+  'tooltip.cropMode': '传感器内裁切: {lens}{factor}x',
+  'tooltip.cropResolution': '输出分辨率: {value}MP',
+  'tooltip.equivalentSensorSize': '等效传感器大小: {value}（{convention}）',
+
+  'note.native': '原生镜头 ({focal}mm)',
+  'note.opticalZoom': '光学变焦 @ {focal}mm ({from}-{to}mm 镜头)',
+  'note.cropMode': '传感器内裁切 @ {focal}mm (基于 {lens}mm 镜头)',
+  'note.segmentEnd': '理论末端 @ {focal}mm (基于 {lens}mm 镜头)',
+  'note.connector': '计算连接点 @ {focal}mm (基于 {lens}mm 镜头)',
+
+  'phoneNames.en': '英文名称',
+  'phoneNames.zh': '中文名称',
+  'phoneNames.aliases': '别名',
+  'phoneNames.codenames': '代号',
+
+  'lensRole.ultraWide': '超广角',
+  'lensRole.main': '主摄',
+  'lensRole.telephoto': '长焦',
+  'lensRole.superTelephoto': '超长焦',
+  'lensRole.macro': '微距',
+
+  'comparison.title': '手机后置摄像头 - 等效光圈',
+  'comparison.subtitle': '部分手机的后置摄像头的等效光圈',
+  'comparison.yAxis': '等效光圈 (F)',
+  'comparison.yAxisStops': '相对 {reference} 的进光量差 (档，向下更暗)',
+  'comparison.scale.label': 'Y 轴',
+  'comparison.scale.fNumber': '等效光圈',
+  'comparison.scale.stops': '相对参照（档）',
+  'comparison.reference.label': '参照',
+  'comparison.reference.phone': '机型',
+  'comparison.reference.fullFrameAperture': '全画幅 f/{value}',
+  'comparison.reference.choosePhone': '选择已显示的机型',
+  'comparison.legend.stops': '档数：与 {reference} 在同一焦距的进光量差，正数表示更暗',
+  'comparison.tableTitle': '等效光圈数据表格',
+  'comparison.legend.native': '原生镜头焦段（含连续光学变焦镜头的焦段内）的实际等效光圈值',
+  'comparison.legend.crop': '厂商登记的传感器内裁切焦段（等效光圈按裁切计算）',
+  'comparison.legend.calculated': '基于物理参数计算的理论等效光圈值',
+
+  'sensor.title': '手机后置摄像头 - 等效传感器大小',
+  'sensor.subtitle': '部分手机的后置摄像头的等效传感器大小',
+  'sensor.yAxis': '等效传感器大小 ("英寸"/type，{convention})',
+  'sensor.tableTitle': '等效传感器大小数据表格',
+  'sensor.scale.label': 'Y 轴',
+  'sensor.scale.category': '英寸型号',
+  'sensor.scale.area': '等效面积',
+  'sensor.scale.cropFactor': '等效裁切系数',
+  'sensor.scale.stops': '相对 1 英寸进光量',
+  'sensor.scaleHint.category': '按"英寸"型号等距排列的刻度',
+  'sensor.scaleHint.area': '按有效面积（mm²）线性排列，直接反映进光面积的比例',
+  'sensor.scaleHint.cropFactor': '相对全画幅的裁切系数，越小传感器越大',
+  'sensor.scaleHint.stops': '与 1 英寸型传感器（13.2×8.8mm）相比的进光量，面积每翻一倍为 +1 档',
+  'sensor.scaleAxis.area': '等效传感器面积 (mm²)',
+  'sensor.scaleAxis.cropFactor': '等效裁切系数（相对全画幅）',
+  'sensor.scaleAxis.stops': '相对 1 英寸传感器的进光量 (档)',
+  'sensor.value.area': '{value}mm²',
+  'sensor.value.cropFactor': '{value}x',
+  'sensor.value.stops': '{value} 档',
+  'sensor.convention.label': '尺寸换算',
+  'sensor.convention.nominal': '标称型号',
+  'sensor.convention.basis16': '16mm基准',
+  'sensor.convention.basis18': '18mm基准',
+  'sensor.convention.trueDiagonal': '实际对角线',
+  'sensor.conventionHint.nominal': '厂商标称的"英寸"型号，裁切后按比例缩小',
+  'sensor.conventionHint.basis16': '有效面积对角线 ÷ 16mm，所有传感器使用同一基准',
+  'sensor.conventionHint.basis18': '有效面积对角线 ÷ 18mm，与多数小尺寸手机传感器的标称方式一致',
+  'sensor.conventionHint.trueDiagonal': '有效面积对角线的真实英寸数（÷ 25.4mm），尺寸来自传感器规格书',
+  'sensor.legend.native': '原生镜头焦段的实际等效传感器大小值',
+  'sensor.legend.crop': '厂商登记的传感器内裁切焦段',
+  'sensor.legend.calculated': '基于物理参数计算的理论等效传感器大小值',
+  'sensor.legend.convention': '尺寸换算：{name}（{hint}）',
+  'sensor.legend.scale': '{name}：{hint}',
+
+  'light.title': '手机后置摄像头 - 进光量',
+  'light.subtitle': '部分手机的后置摄像头在各焦距下收集的总光量',
+  'light.tableTitle': '进光量数据表格',
+  'light.metric.label': 'Y 轴',
+  'light.metric.stops': '总进光量',
+  'light.metric.pupil': '入瞳直径',
+  'light.metricHint.stops': '同一视角、同一快门下整幅画面收集的光，与 {reference} 相比的档数；正数表示更多',
+  'light.metricHint.pupil': '入瞳直径 = 等效焦距 ÷ 等效光圈；裁切变焦时入瞳不变，但视角变小',
+  'light.yAxis.stops': '总进光量（相对 {reference}，档）',
+  'light.yAxis.pupil': '入瞳直径（mm）',
+  'light.value.stops': '{value} 档',
+  'light.value.pupil': '{value}mm',
+  'light.legend.native': '原生镜头焦段（含连续光学变焦镜头的焦段内）的实际进光量',
+  'light.legend.crop': '厂商登记的传感器内裁切焦段（按裁切计算）',
+  'light.legend.calculated': '基于物理参数按裁切变焦计算的理论进光量',
+  'light.legend.metric': '{name}：{hint}',
+
+  'resolution.title': '手机后置摄像头 - 变焦分辨率',
+  'resolution.subtitle': '部分手机的后置摄像头在各焦距下裁切后剩余的像素',
+  'resolution.tableTitle': '输出像素数据表格',
+  'resolution.metric.label': 'Y 轴',
+  'resolution.metric.megapixels': '输出像素',
+  'resolution.metric.pixelPitch': '等效像素间距',
+  'resolution.metricHint.megapixels': '传感器像素 ÷ 裁切倍数²，裁切到 2 倍只剩 1/4 的像素',
+  'resolution.metricHint.pixelPitch': '同样的像素数铺满全画幅时的像素间距，越大每个像素收集的光越多',
+  'resolution.yAxis.megapixels': '输出像素（MP）',
+  'resolution.yAxis.pixelPitch': '等效像素间距（µm，全画幅等效）',
+  'resolution.value.megapixels': '{value}MP',
+  'resolution.value.pixelPitch': '{value}µm',
+  'resolution.legend.native': '原生镜头焦段（含连续光学变焦镜头的焦段内）的传感器全部像素',
+  'resolution.legend.crop': '厂商登记的传感器内裁切焦段（按裁切计算，不是厂商标称的输出分辨率）',
+  'resolution.legend.calculated': '基于传感器分辨率按裁切倍数计算的理论输出像素',
+  'resolution.legend.metric': '{name}：{hint}',
+  'resolution.legend.unregistered': '无法计算（焦距比最广角镜头更广，或传感器未登记分辨率）',
+
+  'depth.title': '景深与背景虚化计算器',
+  'depth.subtitle': '按镜头的物理焦距、物理光圈和转换系数计算',
+  'depth.focalLength': '等效焦距（mm）',
+  'depth.subjectDistance': '对焦距离（m）',
+  'depth.backgroundDistance': '背景距离（m）',
+  'depth.invalidInput': '焦距和距离需要填写大于 0 的数值',
+  'depth.phones': '已选机型',
+  'depth.noPhones': '尚未选择机型，可在下方搜索添加',
+  'depth.remove': '移除 {name}',
+  'depth.resultsTitle': '{focal}mm，对焦 {subject}m，背景 {background}m',
+  'depth.column.lens': '镜头',
+  'depth.column.equivalentAperture': '等效光圈',
+  'depth.column.physical': '物理焦距与光圈',
+  'depth.column.nearFar': '清晰范围',
+  'depth.column.depthOfField': '景深',
+  'depth.column.blur': '背景虚化（占对角线）',
+  'depth.column.blurSensor': '传感器上的虚化直径',
+  'depth.crop': '裁切 {ratio}x',
+  'depth.unavailable': '该焦距比最广角镜头更广，或镜头缺少转换系数',
+  'depth.infinity': '∞',
+  'depth.value.metres': '{value}m',
+  'depth.value.physical': '{focal}mm f/{aperture}',
+  'depth.value.range': '{near} – {far}',
+  'depth.value.microns': '{value}µm',
+  'depth.chartTitle': '背景虚化随焦距的变化',
+  'depth.yAxis': '背景虚化（占画面对角线，对焦 {subject}m，背景 {background}m）',
+  'depth.note.model': '超出镜头焦段时按裁切变焦计算：物理焦距和光圈不变，画幅按裁切倍数变小',
+  'depth.note.coc': '景深的容许弥散圆取画面对角线的 1/1500',
+  'depth.note.blur': '背景虚化为背景点光源的弥散直径；占画面对角线的比例可以在不同手机之间直接比较',
+
+  'diffraction.title': '手机后置摄像头 - 衍射与像素尺寸',
+  'diffraction.subtitle': '每颗镜头在物理光圈下的艾里斑与传感器像素尺寸对比',
+  'diffraction.flaggedOnly': '只看超出衍射极限的镜头',
+  'diffraction.summary': '{total} 个镜头中有 {flagged} 个的标称像素超出衍射极限',
+  'diffraction.column.lens': '镜头',
+  'diffraction.column.sensor': '传感器',
+  'diffraction.column.physicalAperture': '物理光圈',
+  'diffraction.column.pixelPitch': '像素尺寸',
+  'diffraction.column.airyDisk': '艾里斑直径',
+  'diffraction.column.ratio': '艾里斑 / 像素',
+  'diffraction.column.limitedResolution': '衍射极限分辨率',
+  'diffraction.column.marketedResolution': '标称分辨率',
+  'diffraction.zoomEnd': '长焦端',
+  'diffraction.flag': '标称像素超出衍射极限：该光圈下像素尺寸小于 {pitch}µm 时无法分辨更多细节',
+  'diffraction.value.microns': '{value}µm',
+  'diffraction.value.megapixels': '{value}MP',
+  'diffraction.note.airy': '艾里斑直径 = 2.44 × 波长 × 物理光圈，波长取 {wavelength}nm（绿光）',
+  'diffraction.note.criterion': '每个艾里斑直径至少需要 2 个像素才能分辨（奈奎斯特采样），衍射极限分辨率 = 有效面积 ÷ (艾里斑直径 / 2)²',
+  'diffraction.note.aperture': '物理光圈优先使用表格中填写的值，没有时由等效光圈和转换系数推算；连续光学变焦镜头另外列出长焦端',
+  'diffraction.note.unregistered': '传感器未登记或镜头缺少转换系数时不列出；未考虑拜耳阵列、像素合并和镜头像差',
+
+  'changelog.title': '数据更新记录',
+  'changelog.subtitle': '机型的新增、删除以及规格修正',
+  'changelog.loadFailed': '加载更新记录失败',
+  'changelog.empty': '暂无更新记录',
+  'changelog.phoneCount': '{count} 台机型',
+  'changelog.lenses': '镜头：{lenses}',
+  'changelog.fieldSeparator': '：',
+  'changelog.lensAdded': '新增镜头',
+  'changelog.lensRemoved': '删除镜头',
+  'changelog.kind.added': '新增',
+  'changelog.kind.removed': '删除',
+  'changelog.kind.changed': '修正',
+  'changelog.field.name': '名称',
+  'changelog.field.releaseDate': '发布日期',
+  'changelog.field.level': '级别',
+  'changelog.field.nameZh': '中文名称',
+  'changelog.field.nameEn': '英文名称',
+  'changelog.field.aliases': '别名',
+  'changelog.field.codenames': '代号',
+  'changelog.field.variants': '地区版本',
+  'changelog.field.role': '镜头类型',
+  'changelog.field.focalLength': '等效焦距',
+  'changelog.field.aperture': '等效光圈',
+  'changelog.field.physicalApertureValue': '光圈',
+  'changelog.field.conversionFactor': '转换系数',
+  'changelog.field.sensor': '传感器型号',
+  'changelog.field.sensorSize': '传感器尺寸',
+  'changelog.field.physicalFocalLength': '物理焦距',
+  'changelog.field.maxFocalLength': '长焦端等效焦距',
+  'changelog.field.maxAperture': '长焦端等效光圈',
+  'changelog.field.maxPhysicalApertureValue': '长焦端光圈',
+  'changelog.field.cropModes': '传感器内裁切'
+};
+
+export type MessageKey = keyof typeof zh;
+
+export type Messages = Record<MessageKey, string>;
@@ -0,0 +1,45 @@
+import { en } from './messages/en';
+import { zh } from './messages/zh';
+import type { Locale } from './config';
+import type { MessageKey, Messages } from './messages/zh';
+
+const MESSAGES: Record<Locale, Messages> = { zh, en };
+
+export type MessageParams = Record<string, string | number>;
+
+export type Translator = (key: MessageKey, params?: MessageParams) => string;
+
+/**
+ * 替换文案中的 {name} 参数，缺少的参数原样保留
+ */
+export function formatMessage(template: string, params: MessageParams = {}): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+}
+
+/**
+ * 动态拼出的 key（如 changelog.field.${field}）是否有对应文案
+ */
+export function hasMessage(key: string): key is MessageKey {
+  return key in zh;
+}
+
+export function createTranslator(locale: Locale): Translator {
+  const messages = MESSAGES[locale];
+  return (key, params) => formatMessage(messages[key] ?? zh[key] ?? key, params);
+}
+
+const MONTH_FORMAT: Record<Locale, Intl.DateTimeFormatOptions> = {
+  zh: { year: 'numeric', month: 'long', timeZone: 'UTC' },
+  en: { year: 'numeric', month: 'short', timeZone: 'UTC' }
+};
+
+/**
+ * 发布日期的显示文本：中文显示表格原文，其他语言按 ISO 日期的精度格式化
+ */
+export function formatReleaseDate(locale: Locale, phone: { releaseDate: string; releaseDateIso: string | null }): string | null {
+  if (locale === 'zh' || !phone.releaseDateIso) return phone.releaseDate || null;
+  const [year, month, day] = phone.releaseDateIso.split('-').map(Number);
+  if (!month) return String(year);
+  const date = new Date(Date.UTC(year, month - 1, day || 1));
+  return new Intl.DateTimeFormat(locale, day ? { ...MONTH_FORMAT[locale], day: 'numeric' } : MONTH_FORMAT[locale]).format(date);
+}
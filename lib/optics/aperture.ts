@@ -0,0 +1,144 @@
+/**
+ * 光圈相关计算
+ */
+
+/** 连续光学变焦镜头的长焦端（等效焦距 + 等效光圈） */
+export interface OpticalZoomRange {
+  maxFocalLength: number;
+  maxAperture: number;
+}
+
+/** 传感器内裁切模式（厂商宣传的 "2x 光学品质" 等），等效光圈按裁切计算 */
+export interface OpticalCropMode {
+  focalLength: number;
+}
+
+/**
+ * 参与裁切变焦计算所需的最小镜头信息（等效焦距 + 等效光圈）。
+ * 连续光学变焦镜头的 focalLength / aperture 为广角端，zoom 为长焦端
+ */
+export interface OpticalLens {
+  focalLength: number;
+  aperture: number;
+  zoom?: OpticalZoomRange;
+  cropModes?: OpticalCropMode[];
+}
+
+/**
+ * 镜头光学覆盖的最长等效焦距，定焦镜头即其焦距
+ */
+export function maxOpticalFocalLength(lens: OpticalLens): number {
+  return lens.zoom ? Math.max(lens.zoom.maxFocalLength, lens.focalLength) : lens.focalLength;
+}
+
+/**
+ * 目标焦距是否在镜头的光学焦段内（不含裁切）
+ */
+export function coversOptically(lens: OpticalLens, targetFocalLength: number): boolean {
+  return targetFocalLength >= lens.focalLength && targetFocalLength <= maxOpticalFocalLength(lens);
+}
+
+/**
+ * 裁切的起点：焦段内为目标焦距本身（无需裁切），超出焦段则从长焦端开始裁切
+ */
+export function cropStartFocalLength(lens: OpticalLens, targetFocalLength: number): number {
+  return Math.min(Math.max(targetFocalLength, lens.focalLength), maxOpticalFocalLength(lens));
+}
+
+/**
+ * 解析光圈值，支持 "f/1.8"、"F1.8"、"1.8" 以及数字
+ */
+export function parseAperture(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+
+  if (typeof value === 'string' && value.trim() !== '') {
+    const match = value.match(/f?\/?([\d.]+)/i);
+    if (match && match[1]) {
+      const parsed = parseFloat(match[1]);
+      return Number.isNaN(parsed) ? null : parsed;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 物理光圈 × 转换系数 = 等效光圈
+ */
+export function equivalentAperture(physicalAperture: number, conversionFactor: number): number {
+  return physicalAperture * conversionFactor;
+}
+
+/**
+ * 等效光圈相对参照光圈的进光量差（档）：光圈值每乘以 √2 少一档，正数表示比参照更暗
+ */
+export function apertureStops(aperture: number, referenceAperture: number): number {
+  return 2 * Math.log2(aperture / referenceAperture);
+}
+
+/**
+ * 裁切变焦后的等效光圈：A_target = A_native * (F_target / F_native)
+ */
+export function cropZoomAperture(nativeAperture: number, nativeFocalLength: number, targetFocalLength: number): number {
+  // 焦距为0的数据无法按比例计算，保留原始光圈
+  if (nativeFocalLength === 0) return nativeAperture;
+  return nativeAperture * (targetFocalLength / nativeFocalLength);
+}
+
+/**
+ * 连续光学变焦镜头焦段内的等效光圈：两端之间按焦距的对数插值
+ */
+export function opticalZoomAperture(lens: OpticalLens, targetFocalLength: number): number {
+  if (!lens.zoom || lens.zoom.maxFocalLength <= lens.focalLength || lens.focalLength <= 0) return lens.aperture;
+  const focalLength = cropStartFocalLength(lens, targetFocalLength);
+  const t = Math.log(focalLength / lens.focalLength) / Math.log(lens.zoom.maxFocalLength / lens.focalLength);
+  return lens.aperture * Math.pow(lens.zoom.maxAperture / lens.aperture, t);
+}
+
+/**
+ * 镜头在目标焦距的等效光圈：焦段内为光学值，超出焦段则从长焦端裁切
+ */
+export function lensApertureAt(lens: OpticalLens, targetFocalLength: number): number {
+  const start = cropStartFocalLength(lens, targetFocalLength);
+  return cropZoomAperture(opticalZoomAperture(lens, start), start, targetFocalLength);
+}
+
+/**
+ * 选取用于裁切到目标焦距的原生镜头：小于等于目标焦距的最近镜头，
+ * 若没有则使用焦距最大的镜头。目标焦距比最广角镜头更广时返回 null（不向更广角模拟）。
+ */
+export function selectBasisLens<L extends OpticalLens>(targetFocalLength: number, lenses: L[]): L | null {
+  if (!lenses || lenses.length === 0) return null;
+
+  const minFocalLength = Math.min(...lenses.map(l => l.focalLength));
+  if (targetFocalLength < minFocalLength) return null;
+
+  const suitableLenses = lenses.filter(l => l.focalLength <= targetFocalLength);
+  const candidates = suitableLenses.length > 0 ? suitableLenses : lenses;
+  return candidates.reduce((prev, current) => (prev.focalLength >= current.focalLength ? prev : current));
+}
+
+/**
+ * 计算特定焦距的等效光圈（保留一位小数）
+ */
+export function apertureAtFocalLength(targetFocalLength: number, lenses: OpticalLens[]): number | null {
+  if (!lenses || lenses.length === 0) return null;
+
+  // 边界规则：不向更广角模拟
+  if (targetFocalLength < Math.min(...lenses.map(l => l.focalLength))) return null;
+
+  // 如果有精确匹配的原生焦段，直接返回
+  const exactMatch = lenses.find(l => l.focalLength === targetFocalLength);
+  if (exactMatch && typeof exactMatch.aperture === 'number') return exactMatch.aperture;
+
+  const basisLens = selectBasisLens(targetFocalLength, lenses.filter(l => typeof l.aperture === 'number'));
+  if (!basisLens) return null;
+
+  if (basisLens.focalLength === 0) {
+    return targetFocalLength === 0 ? basisLens.aperture : null;
+  }
+
+  return Number(lensApertureAt(basisLens, targetFocalLength).toFixed(1));
+}
@@ -0,0 +1,77 @@
+import { maxOpticalFocalLength } from './aperture';
+import type { OpticalCropMode, OpticalLens } from './aperture';
+
+/** 最长焦镜头向后延伸的裁切终点 */
+export const DEFAULT_SEGMENT_END_FOCAL_LENGTH = 200;
+
+/**
+ * 曲线上的点类型：
+ * - native: 原生镜头的实际焦段（连续光学变焦镜头为广角端）
+ * - optical: 连续光学变焦镜头焦段内的标准焦段
+ * - optical_end: 连续光学变焦镜头的长焦端
+ * - connector: 原生镜头裁切到标准焦段的连接点
+ * - crop_mode: 镜头登记的传感器内裁切模式，与同焦距的连接点互斥
+ * - segment_end: 裁切段的末端（下一颗镜头焦距或延伸终点）
+ */
+export type CropZoomPointKind = 'native' | 'optical' | 'optical_end' | 'connector' | 'crop_mode' | 'segment_end';
+
+export interface CropZoomPoint<L extends OpticalLens> {
+  focalLength: number;
+  kind: CropZoomPointKind;
+  /** 该点所基于的原生镜头 */
+  lens: L;
+  /** kind 为 crop_mode 时对应的裁切模式 */
+  cropMode?: OpticalCropMode;
+}
+
+/**
+ * 生成裁切变焦曲线的焦段点位。
+ * 每颗镜头从自身焦距开始，经过中间的标准焦段，裁切到下一颗镜头的焦距（最后一颗延伸到 endFocalLength）；
+ * 连续光学变焦镜头先覆盖自身焦段（到下一颗镜头为止），再从长焦端开始裁切；
+ * 落在裁切段内的传感器内裁切模式生成 crop_mode 点，超出裁切段（已有更长焦的镜头）的不生成。
+ * 返回结果按焦距排序；同一焦距处保留生成顺序，使上一段末端与下一颗镜头的实际点连成竖线。
+ */
+export function buildCropZoomSegments<L extends OpticalLens>(
+  lenses: L[],
+  majorFocalLengths: number[],
+  endFocalLength: number = DEFAULT_SEGMENT_END_FOCAL_LENGTH
+): CropZoomPoint<L>[] {
+  const sortedLenses = lenses.slice().sort((a, b) => a.focalLength - b.focalLength);
+  const points: CropZoomPoint<L>[] = [];
+
+  sortedLenses.forEach((lens, i) => {
+    const nextLens = i + 1 < sortedLenses.length ? sortedLenses[i + 1] : null;
+    const extendTo = nextLens ? nextLens.focalLength : endFocalLength;
+
+    const opticalEnd = Math.min(maxOpticalFocalLength(lens), extendTo);
+
+    points.push({ focalLength: lens.focalLength, kind: 'native', lens });
+
+    majorFocalLengths.forEach(majorFocalLength => {
+      if (lens.focalLength < majorFocalLength && majorFocalLength < opticalEnd) {
+        points.push({ focalLength: majorFocalLength, kind: 'optical', lens });
+      }
+    });
+
+    if (opticalEnd > lens.focalLength) {
+      points.push({ focalLength: opticalEnd, kind: 'optical_end', lens });
+    }
+
+    const cropModes = (lens.cropModes || []).filter(mode => opticalEnd < mode.focalLength && mode.focalLength < extendTo);
+    majorFocalLengths.forEach(majorFocalLength => {
+      if (opticalEnd < majorFocalLength && majorFocalLength < extendTo && !cropModes.some(mode => mode.focalLength === majorFocalLength)) {
+        points.push({ focalLength: majorFocalLength, kind: 'connector', lens });
+      }
+    });
+    cropModes.forEach(cropMode => {
+      points.push({ focalLength: cropMode.focalLength, kind: 'crop_mode', lens, cropMode });
+    });
+
+    if (extendTo > opticalEnd) {
+      points.push({ focalLength: extendTo, kind: 'segment_end', lens });
+    }
+  });
+
+  // Array.prototype.sort 是稳定排序，同一焦距的点保持生成顺序
+  return points.sort((a, b) => a.focalLength - b.focalLength);
+}
@@ -0,0 +1,105 @@
+import { cropStartFocalLength, opticalZoomAperture, selectBasisLens } from './aperture';
+import type { OpticalLens, OpticalZoomRange } from './aperture';
+import { FULL_FRAME_DIAGONAL_MM, zoomCropRatio } from './sensor';
+
+/**
+ * 景深与背景虚化计算：按镜头的物理焦距、物理光圈和转换系数计算，
+ * 裁切变焦相当于用更小的画幅，弥散圆与画面对角线按裁切倍数缩小
+ */
+
+/** 全画幅的容许弥散圆直径（mm），取对角线的 1/1500 */
+export const FULL_FRAME_COC_MM = FULL_FRAME_DIAGONAL_MM / 1500;
+
+/** 计算所需的镜头信息：等效参数之外还需要物理光圈与转换系数 */
+export interface PhysicalLens extends OpticalLens {
+  physicalApertureValue: number | null;
+  conversionFactor: number | null;
+  zoom?: OpticalZoomRange & { maxPhysicalApertureValue: number | null };
+}
+
+/** 镜头在某一等效焦距下的物理参数 */
+export interface LensOptics {
+  /** 物理焦距（mm） */
+  focalLength: number;
+  /** 物理光圈 f 值 */
+  aperture: number;
+  /** 实际使用的画幅相对全画幅的裁切系数（转换系数 × 裁切倍数） */
+  cropFactor: number;
+  /** 裁切倍数，1 表示不裁切 */
+  cropRatio: number;
+}
+
+/**
+ * 镜头在目标焦距的物理参数：焦段内为光学值，超出焦段则从长焦端裁切；没有转换系数时返回 null
+ */
+export function lensOpticsAt(lens: PhysicalLens, targetFocalLength: number): LensOptics | null {
+  const conversionFactor = lens.conversionFactor;
+  if (!conversionFactor || conversionFactor <= 0 || lens.focalLength <= 0) return null;
+
+  const start = cropStartFocalLength(lens, targetFocalLength);
+  const isZoomEnd = Boolean(lens.zoom) && start === lens.zoom?.maxFocalLength && start > lens.focalLength;
+  // 表格填写的物理光圈优先，连续光学变焦镜头的焦段内按等效光圈插值后换算
+  const physicalAperture = start === lens.focalLength
+    ? lens.physicalApertureValue
+    : isZoomEnd ? lens.zoom?.maxPhysicalApertureValue : null;
+
+  const cropRatio = zoomCropRatio(start, targetFocalLength);
+  return {
+    focalLength: start / conversionFactor,
+    aperture: physicalAperture || opticalZoomAperture(lens, start) / conversionFactor,
+    cropFactor: conversionFactor * cropRatio,
+    cropRatio
+  };
+}
+
+/**
+ * 手机在目标焦距使用的镜头（规则同 selectBasisLens）及其物理参数
+ */
+export function phoneOpticsAt<L extends PhysicalLens>(targetFocalLength: number, lenses: L[]): { lens: L; optics: LensOptics } | null {
+  const lens = selectBasisLens(targetFocalLength, lenses);
+  const optics = lens ? lensOpticsAt(lens, targetFocalLength) : null;
+  return lens && optics ? { lens, optics } : null;
+}
+
+export interface DepthOfField {
+  /** 近点与远点距离（mm），远点为 Infinity 表示延伸到无穷远 */
+  near: number;
+  far: number;
+  /** 远点与近点之差，远点在无穷远时为 Infinity */
+  total: number;
+}
+
+/**
+ * 对焦在 subjectDistance（mm）时的景深，弥散圆按实际画幅取全画幅的 1/cropFactor
+ */
+export function depthOfField(optics: LensOptics, subjectDistance: number): DepthOfField {
+  const { focalLength, aperture } = optics;
+  const coc = FULL_FRAME_COC_MM / optics.cropFactor;
+  const hyperfocal = (focalLength * focalLength) / (aperture * coc) + focalLength;
+  const near = (subjectDistance * (hyperfocal - focalLength)) / (hyperfocal + subjectDistance - 2 * focalLength);
+  const far = subjectDistance < hyperfocal
+    ? (subjectDistance * (hyperfocal - focalLength)) / (hyperfocal - subjectDistance)
+    : Infinity;
+  return { near, far, total: far - near };
+}
+
+export interface BackgroundBlur {
+  /** 背景点光源在传感器上的弥散直径（mm） */
+  sensorDiameter: number;
+  /** 弥散直径占画面对角线的比例，不同画幅之间可以直接比较 */
+  frameFraction: number;
+}
+
+/**
+ * 对焦在 subjectDistance、背景在 backgroundDistance（均为 mm）时背景的虚化大小
+ */
+export function backgroundBlur(optics: LensOptics, subjectDistance: number, backgroundDistance: number): BackgroundBlur {
+  const { focalLength, aperture } = optics;
+  const sensorDiameter = subjectDistance > focalLength
+    ? (focalLength * focalLength * Math.abs(backgroundDistance - subjectDistance)) / (aperture * (subjectDistance - focalLength) * backgroundDistance)
+    : 0;
+  return {
+    sensorDiameter,
+    frameFraction: sensorDiameter / (FULL_FRAME_DIAGONAL_MM / optics.cropFactor)
+  };
+}
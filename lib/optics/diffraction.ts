@@ -0,0 +1,55 @@
+/**
+ * 衍射与像素尺寸：物理光圈决定艾里斑大小，艾里斑比两个像素更大时，
+ * 传感器的像素数超出了镜头在该光圈下能分辨的细节
+ */
+
+/** 计算使用的波长（µm），取绿光 550nm */
+export const DIFFRACTION_WAVELENGTH_UM = 0.55;
+
+/** 计算所需的传感器规格：有效像素区域尺寸（mm）、像素尺寸（µm）与分辨率（MP） */
+export interface DiffractionSensor {
+  widthMm: number;
+  heightMm: number;
+  pixelPitchUm: number;
+  resolutionMp: number;
+}
+
+export interface DiffractionAnalysis {
+  /** 艾里斑直径（µm） */
+  airyDiskUm: number;
+  /** 艾里斑直径 / 像素尺寸 */
+  airyToPixelRatio: number;
+  /** 衍射限制下能分辨的像素（MP） */
+  diffractionLimitedMp: number;
+  /** 标称分辨率是否超出衍射限制 */
+  exceedsDiffractionLimit: boolean;
+}
+
+/**
+ * 艾里斑（第一暗环）直径（µm）= 2.44 × 波长 × 物理光圈 f 值
+ */
+export function airyDiskDiameter(physicalAperture: number, wavelengthUm = DIFFRACTION_WAVELENGTH_UM): number {
+  return 2.44 * wavelengthUm * physicalAperture;
+}
+
+/**
+ * 衍射限制下有意义的最小像素尺寸（µm）：每个艾里斑直径两个像素（奈奎斯特采样）
+ */
+export function diffractionLimitedPixelPitch(physicalAperture: number): number {
+  return airyDiskDiameter(physicalAperture) / 2;
+}
+
+/**
+ * 传感器在该物理光圈下的衍射分析
+ */
+export function analyzeDiffraction(sensor: DiffractionSensor, physicalAperture: number): DiffractionAnalysis {
+  const airyDiskUm = airyDiskDiameter(physicalAperture);
+  const limitedPitchMm = diffractionLimitedPixelPitch(physicalAperture) / 1000;
+  const diffractionLimitedMp = (sensor.widthMm / limitedPitchMm) * (sensor.heightMm / limitedPitchMm) / 1e6;
+  return {
+    airyDiskUm,
+    airyToPixelRatio: airyDiskUm / sensor.pixelPitchUm,
+    diffractionLimitedMp,
+    exceedsDiffractionLimit: sensor.resolutionMp > diffractionLimitedMp
+  };
+}
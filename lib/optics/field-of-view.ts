@@ -0,0 +1,96 @@
+import type { OpticalLens } from './aperture';
+import { FULL_FRAME_DIAGONAL_MM } from './sensor';
+
+/**
+ * 焦距轴的换算：等效焦距与全画幅视角一一对应，变焦倍数相对每台机型的主摄
+ */
+
+/** X 轴模式：等效焦距、对角线视角、水平视角、相对主摄的变焦倍数 */
+export type FocalAxisMode = 'focalLength' | 'diagonalFov' | 'horizontalFov' | 'zoom';
+
+export const FOCAL_AXIS_MODES: FocalAxisMode[] = ['focalLength', 'diagonalFov', 'horizontalFov', 'zoom'];
+
+/** 全画幅宽度（mm），水平视角按横幅计算 */
+const FULL_FRAME_WIDTH_MM = 36;
+
+/** 变焦倍数模式的标准刻度，相当于等效焦距模式的常用焦段 */
+export const ZOOM_MULTIPLE_TICKS = [0.5, 1, 2, 3, 5, 10];
+
+/**
+ * 等效焦距对应的视角（度）
+ */
+export function fieldOfView(equivalentFocalLength: number, dimension: 'diagonal' | 'horizontal'): number {
+  const size = dimension === 'diagonal' ? FULL_FRAME_DIAGONAL_MM : FULL_FRAME_WIDTH_MM;
+  return (2 * Math.atan(size / (2 * equivalentFocalLength)) * 180) / Math.PI;
+}
+
+/**
+ * 主摄的等效焦距，没有标注主摄时返回 null
+ */
+export function mainCameraFocalLength(lenses: Array<{ focalLength: number; role: string }>): number | null {
+  return lenses.find(lens => lens.role === 'main')?.focalLength ?? null;
+}
+
+/**
+ * 变焦倍数取一位小数，如 0.6、3、3.5；表格列与刻度都按取整后的值
+ */
+export function roundZoomMultiple(multiple: number): number {
+  return Math.round(multiple * 10) / 10;
+}
+
+/**
+ * 变焦倍数的显示，如 "0.6x"、"3x"
+ */
+export function formatZoomMultiple(multiple: number): string {
+  return `${roundZoomMultiple(multiple)}x`;
+}
+
+/**
+ * 视角的显示，小于 10° 时保留一位小数，如 "84°"、"8.2°"
+ */
+export function formatFieldOfView(degrees: number): string {
+  return `${degrees < 10 ? degrees.toFixed(1) : Math.round(degrees)}°`;
+}
+
+/**
+ * 等效焦距按 X 轴模式显示，如 "24mm"、"84°"、"3x"；变焦倍数模式缺少主摄焦距时显示等效焦距
+ */
+export function formatFocalAxisValue(equivalentFocalLength: number, mode: FocalAxisMode, mainFocalLength: number | null = null): string {
+  if (mode === 'diagonalFov') return formatFieldOfView(fieldOfView(equivalentFocalLength, 'diagonal'));
+  if (mode === 'horizontalFov') return formatFieldOfView(fieldOfView(equivalentFocalLength, 'horizontal'));
+  if (mode === 'zoom' && mainFocalLength) return formatZoomMultiple(equivalentFocalLength / mainFocalLength);
+  return `${equivalentFocalLength}mm`;
+}
+
+/**
+ * 机型的原生焦段（含连续光学变焦的长焦端），以及可选的传感器内裁切焦段
+ */
+export function nativeFocalLengths(lenses: OpticalLens[], includeCropModes: boolean): number[] {
+  return lenses.flatMap(lens => [
+    lens.focalLength,
+    ...(lens.zoom ? [lens.zoom.maxFocalLength] : []),
+    ...(includeCropModes ? (lens.cropModes || []).map(mode => mode.focalLength) : [])
+  ]);
+}
+
+/**
+ * 变焦倍数模式的表格列对应的等效焦距：原生焦段（见 nativeFocalLengths）取整后落在该列时使用该焦段，
+ * 否则按倍数计算
+ */
+export function focalLengthAtZoomMultiple(multiple: number, mainFocalLength: number, lenses: OpticalLens[], includeCropModes: boolean): number {
+  const native = nativeFocalLengths(lenses, includeCropModes).find(focal => roundZoomMultiple(focal / mainFocalLength) === multiple);
+  return native ?? multiple * mainFocalLength;
+}
+
+/**
+ * 变焦倍数模式的表格列：标准刻度加上各机型原生焦段的倍数（取一位小数），从小到大；没有主摄的机型不参与
+ */
+export function zoomMultipleColumns(phoneLenses: Array<Array<OpticalLens & { role: string }>>, includeCropModes: boolean): number[] {
+  const multiples = new Set(ZOOM_MULTIPLE_TICKS);
+  phoneLenses.forEach(lenses => {
+    const mainFocalLength = mainCameraFocalLength(lenses);
+    if (!mainFocalLength) return;
+    nativeFocalLengths(lenses, includeCropModes).forEach(focal => multiples.add(roundZoomMultiple(focal / mainFocalLength)));
+  });
+  return Array.from(multiples).sort((a, b) => a - b);
+}
@@ -0,0 +1,8 @@
+export * from './aperture';
+export * from './sensor';
+export * from './crop-zoom';
+export * from './light';
+export * from './depth';
+export * from './resolution';
+export * from './diffraction';
+export * from './field-of-view';
@@ -0,0 +1,48 @@
+import { apertureStops, lensApertureAt, selectBasisLens } from './aperture';
+import type { OpticalLens } from './aperture';
+
+/**
+ * 进光量相关计算：把等效光圈和传感器大小合成一个暗光指标。
+ * 同一视角下，整幅画面收集的光与等效光圈的平方成反比，也与入瞳面积成正比
+ */
+
+/** 档数的参照：全画幅 f/2.8 */
+export const LIGHT_REFERENCE_APERTURE = 2.8;
+
+/** Y 轴指标：相对参照的总进光量（档），或入瞳直径（mm） */
+export type LightMetric = 'stops' | 'pupil';
+
+export const LIGHT_METRICS: LightMetric[] = ['stops', 'pupil'];
+
+/**
+ * 入瞳直径（mm）= 等效焦距 / 等效光圈，与物理焦距 / 物理光圈相同；
+ * 裁切变焦时等效光圈随焦距等比变大，入瞳不变
+ */
+export function entrancePupilDiameter(equivalentFocalLength: number, equivalentAperture: number): number {
+  return equivalentFocalLength / equivalentAperture;
+}
+
+/**
+ * 同一视角下整幅画面的总进光量相对参照光圈的档数，正数表示比参照更多
+ */
+export function totalLightStops(equivalentAperture: number, referenceAperture = LIGHT_REFERENCE_APERTURE): number {
+  return -apertureStops(equivalentAperture, referenceAperture);
+}
+
+/**
+ * 等效焦距与等效光圈对应的进光指标
+ */
+export function lightMetricValue(equivalentFocalLength: number, equivalentAperture: number, metric: LightMetric): number {
+  return metric === 'pupil'
+    ? entrancePupilDiameter(equivalentFocalLength, equivalentAperture)
+    : totalLightStops(equivalentAperture);
+}
+
+/**
+ * 特定焦距的进光指标，规则同 apertureAtFocalLength（不向更广角模拟），但不对等效光圈取整
+ */
+export function lightAtFocalLength(targetFocalLength: number, lenses: OpticalLens[], metric: LightMetric): number | null {
+  const basisLens = selectBasisLens(targetFocalLength, lenses.filter(l => typeof l.aperture === 'number'));
+  if (!basisLens || basisLens.focalLength <= 0) return null;
+  return lightMetricValue(targetFocalLength, lensApertureAt(basisLens, targetFocalLength), metric);
+}
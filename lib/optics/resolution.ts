@@ -0,0 +1,33 @@
+/**
+ * 裁切变焦后的分辨率：裁切到 r 倍只使用传感器中央 1/r² 的像素
+ */
+
+/** 全画幅（36×24mm）面积，mm² */
+const FULL_FRAME_AREA_MM2 = 36 * 24;
+
+/** Y 轴指标：输出像素（MP），或等效像素间距（µm） */
+export type ResolutionMetric = 'megapixels' | 'pixelPitch';
+
+export const RESOLUTION_METRICS: ResolutionMetric[] = ['megapixels', 'pixelPitch'];
+
+/**
+ * 裁切后的输出像素（MP）= 传感器像素 / 裁切倍数²
+ */
+export function croppedMegapixels(resolutionMp: number, cropRatio: number): number {
+  return resolutionMp / (cropRatio * cropRatio);
+}
+
+/**
+ * 等效像素间距（µm）：同样的像素数铺满全画幅时的像素间距，
+ * 与传感器大小无关，可以直接比较每个输出像素收集的光
+ */
+export function equivalentPixelPitch(megapixels: number): number {
+  return Math.sqrt(FULL_FRAME_AREA_MM2 / (megapixels * 1e6)) * 1000;
+}
+
+/**
+ * 输出像素对应的指标值
+ */
+export function resolutionMetricValue(megapixels: number, metric: ResolutionMetric): number {
+  return metric === 'pixelPitch' ? equivalentPixelPitch(megapixels) : megapixels;
+}
@@ -0,0 +1,161 @@
+/**
+ * 传感器尺寸相关计算
+ */
+
+/** 全画幅（36×24mm）对角线长度 */
+export const FULL_FRAME_DIAGONAL_MM = 43.27;
+
+/** 估算对角线时，1/2 英寸及以上的传感器按 16mm/英寸 计算，更小的按 18mm/英寸（与多数厂商的标称方式接近） */
+const LARGE_FORMAT_MM_PER_INCH = 16;
+const SMALL_FORMAT_MM_PER_INCH = 18;
+const SMALL_FORMAT_THRESHOLD = 1 / 2.0;
+
+/**
+ * 解析传感器尺寸字符串（例如 "1/2.51" -> 1/2.51）
+ */
+export function parseSensorSize(sensorSize: string | number): number {
+  if (typeof sensorSize === 'number') return sensorSize;
+  if (sensorSize.includes('/')) {
+    const parts = sensorSize.split('/');
+    return parseFloat(parts[0]) / parseFloat(parts[1]);
+  }
+  return parseFloat(sensorSize);
+}
+
+/**
+ * 按光学格式估算传感器对角线（mm），仅用于没有规格书尺寸的传感器
+ */
+export function sensorDiagonal(sensorSize: string | number): number {
+  const size = parseSensorSize(sensorSize);
+  const mmPerInch = size < SMALL_FORMAT_THRESHOLD ? SMALL_FORMAT_MM_PER_INCH : LARGE_FORMAT_MM_PER_INCH;
+  return size * mmPerInch;
+}
+
+/**
+ * 由对角线（mm）计算相对全画幅的裁切系数
+ */
+export function cropFactorFromDiagonal(diagonalMm: number): number {
+  return FULL_FRAME_DIAGONAL_MM / diagonalMm;
+}
+
+/**
+ * 相对全画幅的裁切系数，即表格中的"转换系数"；已登记的传感器应使用实际尺寸（见 lib/sensors.ts）
+ */
+export function sensorCropFactor(sensorSize: string | number): number {
+  return cropFactorFromDiagonal(sensorDiagonal(sensorSize));
+}
+
+/**
+ * 从原生焦距裁切到目标焦距的裁切倍数
+ */
+export function zoomCropRatio(nativeFocalLength: number, targetFocalLength: number): number {
+  return targetFocalLength / nativeFocalLength;
+}
+
+/**
+ * 等效传感器大小的"英寸型号"换算约定：
+ * - nominal：厂商标称的英寸型号
+ * - basis16 / basis18：对角线 ÷ 16mm 或 18mm，所有尺寸使用同一基准
+ * - trueDiagonal：对角线的真实英寸数（÷ 25.4mm）
+ */
+export type SensorSizeConvention = 'nominal' | 'basis16' | 'basis18' | 'trueDiagonal';
+
+export const SENSOR_SIZE_CONVENTIONS: SensorSizeConvention[] = ['nominal', 'basis16', 'basis18', 'trueDiagonal'];
+
+export const DEFAULT_SENSOR_SIZE_CONVENTION: SensorSizeConvention = 'basis16';
+
+/** 各约定下每"英寸"对应的对角线长度（mm） */
+const CONVENTION_MM_PER_INCH: Record<Exclude<SensorSizeConvention, 'nominal'>, number> = {
+  basis16: 16,
+  basis18: 18,
+  trueDiagonal: 25.4
+};
+
+/** 换算等效传感器大小所需的传感器规格 */
+export interface SensorFormat {
+  /** 厂商标称的英寸型号数值，如 1/1.56 */
+  nominalSize: number;
+  /** 规格书中有效像素区域的对角线（mm），未知为 null */
+  diagonalMm: number | null;
+  /** 规格书中有效像素区域的面积（mm²），未知为 null */
+  areaMm2: number | null;
+}
+
+/** 1 英寸型传感器（13.2×8.8mm）的面积，作为进光量的参照 */
+export const ONE_INCH_SENSOR_AREA_MM2 = 13.2 * 8.8;
+
+/** 手机传感器常见的 4:3 画幅，用于由对角线估算面积 */
+const DEFAULT_ASPECT_RATIO = 4 / 3;
+
+/**
+ * 传感器对角线（mm）：优先使用规格书尺寸，未知时按标称型号估算
+ */
+export function sensorFormatDiagonal(format: SensorFormat): number {
+  return format.diagonalMm ?? sensorDiagonal(format.nominalSize);
+}
+
+/**
+ * 传感器面积（mm²）：优先使用规格书尺寸，未知时按 4:3 画幅由对角线估算
+ */
+export function sensorFormatArea(format: SensorFormat): number {
+  if (format.areaMm2 !== null) return format.areaMm2;
+  const diagonal = sensorFormatDiagonal(format);
+  return diagonal ** 2 * DEFAULT_ASPECT_RATIO / (1 + DEFAULT_ASPECT_RATIO ** 2);
+}
+
+/**
+ * 传感器按某一约定换算的英寸型号数值。
+ * 对角线未知时按 sensorFormatDiagonal 由标称型号估算，再按约定换算，同一图表中所有传感器使用同一基准
+ */
+export function sensorSizeInConvention(format: SensorFormat, convention: SensorSizeConvention): number {
+  if (convention === 'nominal') return format.nominalSize;
+  return sensorFormatDiagonal(format) / CONVENTION_MM_PER_INCH[convention];
+}
+
+/**
+ * 计算目标焦距下的等效传感器尺寸（按 convention 换算的英寸型号数值），裁切后对角线按裁切倍数缩小
+ */
+export function calculateEquivalentSensorSize(
+  format: SensorFormat,
+  originalFocalLength: number,
+  targetFocalLength: number,
+  convention: SensorSizeConvention = DEFAULT_SENSOR_SIZE_CONVENTION
+): number {
+  return sensorSizeInConvention(format, convention) / zoomCropRatio(originalFocalLength, targetFocalLength);
+}
+
+/**
+ * 按实际尺寸衡量的等效传感器大小（与英寸型号的换算约定无关）：
+ * - area：等效面积（mm²）
+ * - cropFactor：相对全画幅的等效裁切系数
+ * - stops：相对 1 英寸型传感器的进光量差（档），面积每翻一倍为 +1
+ */
+export type SensorSizeMetric = 'area' | 'cropFactor' | 'stops';
+
+export const SENSOR_SIZE_METRICS: SensorSizeMetric[] = ['area', 'cropFactor', 'stops'];
+
+/**
+ * 计算目标焦距下的等效传感器面积、裁切系数或相对 1 英寸的档数
+ */
+export function calculateEquivalentSensorMetric(
+  format: SensorFormat,
+  originalFocalLength: number,
+  targetFocalLength: number,
+  metric: SensorSizeMetric
+): number {
+  const cropRatio = zoomCropRatio(originalFocalLength, targetFocalLength);
+  if (metric === 'cropFactor') return cropFactorFromDiagonal(sensorFormatDiagonal(format) / cropRatio);
+  const area = sensorFormatArea(format) / cropRatio ** 2;
+  return metric === 'area' ? area : Math.log2(area / ONE_INCH_SENSOR_AREA_MM2);
+}
+
+/**
+ * 格式化传感器尺寸用于显示（例如 0.398 -> "1/2.51"）
+ */
+export function formatSensorSize(size: number): string {
+  const fraction = 1 / size;
+  const fractionStr = fraction.toFixed(2).replace(/\.?0+$/, '');
+  if (fractionStr === '0.75') return '4/3'; // Special case for 1/0.75
+  if (Number.isInteger(parseFloat(fractionStr))) return `1/${parseFloat(fractionStr).toFixed(0)}`;
+  return `1/${fractionStr}`;
+}
@@ -0,0 +1,148 @@
+import { BRANDS } from './brands';
+import type { PhoneBrandData, PhoneData } from './schema';
+
+/**
+ * 机型名称的匹配：官方中英文名称、别名、代号、地区版本都指向同一台机型，
+ * "Xiaomi 14 Ultra"、"小米14 Ultra"、"xiaomi14ultra" 等写法都能找到 小米14ultra。
+ * 页面搜索、分享链接与数据转换共用
+ */
+
+/** 品牌名称 -> 品牌 key，按长度从长到短替换，避免短名称先命中 */
+const BRAND_ALIASES = BRANDS
+  .flatMap(brand => [brand.names.zh, brand.names.en].map(name => ({ name: name.toLowerCase(), key: brand.key })))
+  .filter(({ name, key }) => name !== key)
+  .sort((a, b) => b.name.length - a.name.length);
+
+/**
+ * 归一化名称：统一全角半角与大小写，品牌名称换成品牌 key，"+" 换成 plus，去掉空格和标点
+ */
+export function normalizePhoneName(text: string): string {
+  let normalized = text.normalize('NFKC').toLowerCase().replace(/\+/g, 'plus');
+  BRAND_ALIASES.forEach(({ name, key }) => {
+    normalized = normalized.split(name).join(key);
+  });
+  return normalized.replace(/[^\p{L}\p{N}]+/gu, '');
+}
+
+/**
+ * 机型的全部名称（表格名称、官方名称、别名、代号、地区版本），去重
+ */
+export function phoneNames(phone: PhoneData): string[] {
+  return Array.from(new Set([
+    phone.name,
+    phone.names?.zh,
+    phone.names?.en,
+    ...(phone.aliases || []),
+    ...(phone.codenames || []),
+    ...(phone.variants || []).map(variant => variant.name)
+  ].filter((name): name is string => Boolean(name))));
+}
+
+/**
+ * 用于搜索与匹配的归一化名称；不带品牌的名称（如 "iPhone 15 Pro"）同时加上品牌前缀
+ */
+export function phoneSearchKeys(brand: string, phone: PhoneData): string[] {
+  const keys = new Set<string>();
+  [...phoneNames(phone), phone.id, phone.slug].forEach(name => {
+    const key = normalizePhoneName(name);
+    if (!key) return;
+    keys.add(key);
+    if (!key.startsWith(brand)) keys.add(`${brand}${key}`);
+  });
+  return Array.from(keys);
+}
+
+/**
+ * 搜索词是否匹配机型的任一名称（部分匹配），空搜索词匹配所有机型
+ */
+export function matchesPhoneQuery(keys: string[], query: string): boolean {
+  const normalized = normalizePhoneName(query);
+  return !normalized || keys.some(key => key.includes(normalized));
+}
+
+/**
+ * 建立 归一化名称 -> id 的索引；多台机型共用的名称不能唯一确定机型，不收录
+ */
+export function buildPhoneNameIndex(phones: PhoneBrandData): Map<string, string> {
+  const index = new Map<string, string>();
+  const ambiguous = new Set<string>();
+  Object.entries(phones).forEach(([brand, brandPhones]) => {
+    brandPhones.forEach(phone => {
+      phoneSearchKeys(brand, phone).forEach(key => {
+        const existing = index.get(key);
+        if (existing !== undefined && existing !== phone.id) ambiguous.add(key);
+        index.set(key, phone.id);
+      });
+    });
+  });
+  ambiguous.forEach(key => index.delete(key));
+  return index;
+}
+
+/**
+ * 按名称查找机型 id，找不到或无法唯一确定时返回 null
+ */
+export function resolvePhoneName(index: Map<string, string>, name: string): string | null {
+  return index.get(normalizePhoneName(name)) ?? null;
+}
+
+export interface PhoneNameLabels {
+  en: string;
+  zh: string;
+  aliases: string;
+  codenames: string;
+}
+
+const DEFAULT_NAME_LABELS: PhoneNameLabels = { en: '英文名称', zh: '中文名称', aliases: '别名', codenames: '代号' };
+
+/**
+ * 提示框与表格中显示的其他名称，每行一项；与表格名称相同的官方名称不重复显示。
+ * labels 为各行标题，页面按当前语言传入
+ */
+export function describePhoneNames(phone: PhoneData, labels: PhoneNameLabels = DEFAULT_NAME_LABELS): string[] {
+  const lines: string[] = [];
+  if (phone.names?.en && phone.names.en !== phone.name) lines.push(`${labels.en}: ${phone.names.en}`);
+  if (phone.names?.zh && phone.names.zh !== phone.name) lines.push(`${labels.zh}: ${phone.names.zh}`);
+  if (phone.aliases?.length) lines.push(`${labels.aliases}: ${phone.aliases.join(' / ')}`);
+  if (phone.codenames?.length) lines.push(`${labels.codenames}: ${phone.codenames.join(' / ')}`);
+  phone.variants?.forEach(variant => lines.push(`${variant.region}: ${variant.name}`));
+  return lines;
+}
+
+/**
+ * 改名后沿用原 ID：本次没有手工指定 ID、且 ID 在上次构建中不存在的机型，
+ * 如果某个名称与上次构建中同品牌、本次已不存在的机型唯一对应，就沿用那台机型的 ID。
+ * 返回沿用了原 ID 的机型（新名称与原 ID）
+ */
+export function carryOverPhoneIds(
+  previous: PhoneBrandData,
+  next: { phones: PhoneBrandData; chart: { datasets: Array<{ id: string; brand: string }> } }
+): Array<{ name: string; id: string }> {
+  const nextIds = new Set(Object.values(next.phones).flat().map(phone => phone.id));
+  const previousIds = new Set(Object.values(previous).flat().map(phone => phone.id));
+  const carried: Array<{ name: string; id: string }> = [];
+
+  Object.entries(next.phones).forEach(([brand, brandPhones]) => {
+    const candidates = (previous[brand] || []).filter(phone => !nextIds.has(phone.id));
+    if (candidates.length === 0) return;
+    const index = buildPhoneNameIndex({ [brand]: candidates });
+
+    brandPhones.forEach(phone => {
+      if (phone.id !== phone.slug || previousIds.has(phone.id)) return;
+      const matches = new Set(phoneSearchKeys(brand, phone).map(key => index.get(key)).filter((id): id is string => id !== undefined));
+      if (matches.size !== 1) return;
+      const [id] = Array.from(matches);
+      if (nextIds.has(id)) return;
+
+      next.chart.datasets
+        .filter(dataset => dataset.brand === brand && dataset.id === phone.id)
+        .forEach(dataset => { dataset.id = id; });
+      nextIds.delete(phone.id);
+      nextIds.add(id);
+      phone.id = id;
+      carried.push({ name: phone.name, id });
+    });
+  });
+
+  return carried;
+}
@@ -0,0 +1,131 @@
+import { equivalentAperture } from '../optics';
+import { getSensor, lensSensorCropFactor, sensorDisplayName } from '../sensors';
+import { lensDisplayName } from './types';
+import type { ChartData } from './types';
+import knownDeviations from '../../data/spec-deviations.json';
+
+/**
+ * 镜头规格一致性检查：表格中的等效光圈、转换系数、传感器尺寸与焦距都是手工填写的，
+ * 这里用物理规格重新计算并与填写值对比，找出传感器尺寸写错之类的笔误
+ */
+
+/** 默认允许 5% 的偏差（厂商标称焦距、光圈通常有取整） */
+export const DEFAULT_CONSISTENCY_TOLERANCE = 0.05;
+
+export type ConsistencyCheck =
+  /** 等效光圈 vs 物理光圈 × 转换系数 */
+  | 'equivalentAperture'
+  /** 转换系数 vs 传感器尺寸推算的裁切系数 */
+  | 'sensorSize'
+  /** 转换系数 vs 等效焦距 ÷ 物理焦距 */
+  | 'focalLength';
+
+export interface ConsistencyIssue {
+  path: string;
+  phone: string;
+  /** 镜头显示名称，如 "主摄"、"长焦2" */
+  lens: string;
+  focalLength: number;
+  check: ConsistencyCheck;
+  expected: number;
+  actual: number;
+  /** 相对偏差，0.1 表示 10% */
+  deviation: number;
+  message: string;
+}
+
+/** 已核实的偏差（如厂商按不同方法换算），登记在 data/spec-deviations.json，检查时跳过 */
+export interface KnownSpecDeviation {
+  phone: string;
+  focalLength: number;
+  check: ConsistencyCheck;
+  reason: string;
+}
+
+export const KNOWN_SPEC_DEVIATIONS = knownDeviations as KnownSpecDeviation[];
+
+function relativeDeviation(actual: number, expected: number): number {
+  return Math.abs(actual - expected) / Math.abs(expected);
+}
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+/**
+ * 检查所有镜头，返回超出容差且未登记为已知偏差的项
+ */
+export function checkSpecConsistency(chart: ChartData, tolerance = DEFAULT_CONSISTENCY_TOLERANCE, known = KNOWN_SPEC_DEVIATIONS): ConsistencyIssue[] {
+  const issues: ConsistencyIssue[] = [];
+
+  chart.datasets.forEach((dataset, datasetIndex) => {
+    dataset.originalLenses.forEach((lens, lensIndex) => {
+      const detail = dataset.lensDetails[String(lens.focalLength)];
+      const base = {
+        path: `datasets[${datasetIndex}] (${dataset.label}).originalLenses[${lensIndex}]`,
+        phone: dataset.label,
+        lens: lensDisplayName(lens),
+        focalLength: lens.focalLength
+      };
+      const report = (check: ConsistencyCheck, actual: number, expected: number, describe: (deviation: string) => string) => {
+        const deviation = relativeDeviation(actual, expected);
+        const isKnown = known.some(entry => entry.phone === dataset.label && entry.focalLength === lens.focalLength && entry.check === check);
+        if (deviation > tolerance && !isKnown) {
+          issues.push({ ...base, check, expected, actual, deviation, message: describe(formatPercent(deviation)) });
+        }
+      };
+
+      // 已登记的传感器按实际尺寸计算
+      const sensor = getSensor(detail?.sensorId);
+      const sensorFactor = lensSensorCropFactor(detail);
+      const conversionFactor = lens.conversionFactor ?? sensorFactor;
+
+      if (lens.physicalApertureValue !== null && conversionFactor !== null) {
+        const expected = equivalentAperture(lens.physicalApertureValue, conversionFactor);
+        report('equivalentAperture', lens.aperture, expected, deviation =>
+          `等效光圈 F${lens.aperture} 与 物理光圈 f/${lens.physicalApertureValue} × 转换系数 ${conversionFactor.toFixed(2)} = F${expected.toFixed(1)} 相差 ${deviation}`
+        );
+      }
+
+      const maxPhysicalAperture = lens.zoom?.maxPhysicalApertureValue ?? null;
+      if (lens.zoom && maxPhysicalAperture !== null && conversionFactor !== null) {
+        const expected = equivalentAperture(maxPhysicalAperture, conversionFactor);
+        report('equivalentAperture', lens.zoom.maxAperture, expected, deviation =>
+          `长焦端等效光圈 F${lens.zoom?.maxAperture} 与 物理光圈 f/${maxPhysicalAperture} × 转换系数 ${conversionFactor.toFixed(2)} = F${expected.toFixed(1)} 相差 ${deviation}`
+        );
+      }
+
+      if (lens.conversionFactor !== null && sensorFactor !== null) {
+        report('sensorSize', lens.conversionFactor, sensorFactor, deviation =>
+          `转换系数 ${lens.conversionFactor?.toFixed(2)} 与 ${sensor ? `传感器 ${sensorDisplayName(sensor)} 实际尺寸` : `传感器尺寸 ${detail.sensorSize}`} 推算的 ${sensorFactor.toFixed(2)} 相差 ${deviation}`
+        );
+      }
+
+      if (conversionFactor !== null && detail?.physicalFocalLength) {
+        const focalFactor = detail.equivalentFocalLength / detail.physicalFocalLength;
+        report('focalLength', conversionFactor, focalFactor, deviation =>
+          `转换系数 ${conversionFactor.toFixed(2)} 与 等效焦距 ${detail.equivalentFocalLength}mm ÷ 物理焦距 ${detail.physicalFocalLength}mm = ${focalFactor.toFixed(2)} 相差 ${deviation}`
+        );
+      }
+    });
+  });
+
+  return issues;
+}
+
+/**
+ * 按机型分组，生成便于在终端阅读的文本
+ */
+export function formatConsistencyReport(issues: ConsistencyIssue[]): string[] {
+  const byPhone = new Map<string, ConsistencyIssue[]>();
+  issues.forEach(issue => {
+    byPhone.set(issue.phone, [...(byPhone.get(issue.phone) || []), issue]);
+  });
+
+  const lines: string[] = [];
+  byPhone.forEach((phoneIssues, phone) => {
+    lines.push(`⚠️  ${phone}`);
+    phoneIssues.forEach(issue => lines.push(`     ${issue.focalLength}mm ${issue.lens}: ${issue.message}`));
+  });
+  return lines;
+}
@@ -0,0 +1,115 @@
+/**
+ * 发布日期：表格中的写法不统一（"2023年4月18日"、"2024 年 2 月 22 日"、Excel 日期序列号……），
+ * 转换时统一解析为 ISO 8601 日期，原文保留在 releaseDate 中用于显示。
+ * 只知道年月或年份时使用精度更低的 ISO 写法（YYYY-MM / YYYY），按字符串比较即可排序
+ */
+
+export const RELEASE_DATE_PATTERN = /^\d{4}(-\d{2}(-\d{2})?)?$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Excel 日期序列号的起点。序列号 1 是 1900-01-01，但 Excel 沿用了把 1900 年当作闰年的错误，
+ * 从 1900-03-01（序列号 61）起以 1899-12-30 为起点换算才正确，手机的发布日期都在此之后
+ */
+const EXCEL_EPOCH_UTC = Date.UTC(1899, 11, 30);
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+function isValidDate(year: number, month: number, day: number): boolean {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/**
+ * Excel 日期序列号 -> YYYY-MM-DD
+ */
+export function excelSerialToIsoDate(serial: number): string {
+  const date = new Date(EXCEL_EPOCH_UTC + Math.floor(serial) * DAY_MS);
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+}
+
+/**
+ * 解析发布日期：Date、Excel 日期序列号、年份数字，或 "2023年4月18日"、"2024 年 2 月"、"2023-04-18"、"2023/4/18" 等文本。
+ * 无法识别时返回 null
+ */
+export function parseReleaseDate(value: unknown): string | null {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+  }
+
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value) || value <= 0) return null;
+    // 四位数是直接填写的年份，否则是 Excel 日期序列号
+    if (Number.isInteger(value) && value >= 1000 && value <= 9999) return String(value);
+    return excelSerialToIsoDate(value);
+  }
+
+  if (typeof value !== 'string') return null;
+  const text = value.trim();
+  if (!text) return null;
+  if (/^\d+(\.\d+)?$/.test(text)) return parseReleaseDate(Number(text));
+
+  const match = text.match(/(\d{4})\s*(?:[年\-/.]\s*(\d{1,2})\s*(?:[月\-/.]\s*(\d{1,2})\s*日?)?)?/);
+  if (!match) return null;
+
+  const year = Number(match[1]);
+  const month = match[2] ? Number(match[2]) : null;
+  const day = match[3] ? Number(match[3]) : null;
+  if (month === null || month < 1 || month > 12) return String(year);
+  if (day === null || !isValidDate(year, month, day)) return `${year}-${pad(month)}`;
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * ISO 发布日期中的年份
+ */
+export function releaseYearOf(isoDate: string | null): number | null {
+  return isoDate ? Number(isoDate.slice(0, 4)) : null;
+}
+
+/**
+ * 按月计数（年 × 12 + 月），只知道年份时按 1 月计
+ */
+function monthIndex(isoDate: string): number {
+  const [year, month] = isoDate.split('-');
+  return Number(year) * 12 + (month ? Number(month) - 1 : 0);
+}
+
+/**
+ * 是否在最近 months 个月内发布（含本月），未知日期视为不满足
+ */
+export function isReleasedWithinMonths(isoDate: string | null, months: number, now: Date = new Date()): boolean {
+  if (!isoDate) return false;
+  const elapsed = now.getFullYear() * 12 + now.getMonth() - monthIndex(isoDate);
+  return elapsed >= 0 && elapsed < months;
+}
+
+/**
+ * 是否在 from ~ to 两个月份（YYYY-MM，含两端，可只给一端）之间发布
+ */
+export function isReleasedBetween(isoDate: string | null, from: string | null, to: string | null): boolean {
+  if (!from && !to) return true;
+  if (!isoDate) return false;
+  const index = monthIndex(isoDate);
+  return (!from || index >= monthIndex(from)) && (!to || index <= monthIndex(to));
+}
+
+/**
+ * 比较两个发布日期，新的在前；未知日期排在最后
+ */
+export function compareReleaseDatesDesc(a: string | null, b: string | null): number {
+  if (a === b) return 0;
+  if (!a) return 1;
+  if (!b) return -1;
+  return a < b ? 1 : -1;
+}
+
+/**
+ * 去掉没有发布日期的机型，按发布日期从新到旧排列
+ */
+export function sortByReleaseDate<T extends { releaseDateIso: string | null }>(phones: T[]): T[] {
+  return phones
+    .filter(phone => phone.releaseDateIso)
+    .sort((a, b) => compareReleaseDatesDesc(a.releaseDateIso, b.releaseDateIso));
+}
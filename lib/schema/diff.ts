@@ -0,0 +1,200 @@
+import { formatCropModes, lensDisplayName } from './types';
+import type { ChartData, ChartDataset, LensDetail, LensInfo, LensRole, LensZoomRange, PhoneBrandData, PhoneData } from './types';
+
+/**
+ * 两次数据构建之间的差异：新增/删除的机型，以及每颗镜头逐字段的旧值 -> 新值。
+ * 转换脚本用它打印变更，scripts/diff-data.ts 把它写入 changelog.json，由 /changelog 页面展示
+ */
+
+export type ChangeValue = string | number | null;
+
+export interface FieldChange {
+  field: string;
+  from: ChangeValue;
+  to: ChangeValue;
+}
+
+export interface LensChange {
+  /** 镜头显示名称（如 "主摄"、"长焦2"），同一机型内按它对应镜头 */
+  lens: string;
+  role: LensRole;
+  kind: 'added' | 'removed' | 'changed';
+  /** 变更后的等效焦距（删除时为原焦距） */
+  focalLength: number;
+  changes: FieldChange[];
+}
+
+export interface PhoneChange {
+  id: string;
+  brand: string;
+  name: string;
+  kind: 'added' | 'removed' | 'changed';
+  /** 机型本身的字段（名称、发布日期、级别、官方名称与别名） */
+  changes: FieldChange[];
+  lenses: LensChange[];
+}
+
+export interface ChangelogEntry {
+  /** 生成日期，YYYY-MM-DD */
+  date: string;
+  changes: PhoneChange[];
+}
+
+/** changelog.json，最新的记录在前 */
+export interface Changelog {
+  entries: ChangelogEntry[];
+}
+
+/** 参与比较的机型字段，名称字段见 phoneFields */
+const PHONE_FIELDS = ['name', 'releaseDate', 'level', 'nameZh', 'nameEn', 'aliases', 'codenames', 'variants'];
+
+/** 参与比较的镜头字段，前者来自 originalLenses，后者来自 lensDetails */
+const LENS_INFO_FIELDS: Array<keyof LensInfo> = ['focalLength', 'aperture', 'physicalApertureValue', 'conversionFactor'];
+const LENS_DETAIL_FIELDS: Array<keyof LensDetail> = ['sensor', 'sensorSize', 'physicalFocalLength'];
+/** 连续光学变焦镜头的长焦端，定焦镜头为空 */
+const LENS_ZOOM_FIELDS: Array<keyof LensZoomRange> = ['maxFocalLength', 'maxAperture', 'maxPhysicalApertureValue'];
+
+interface PhoneEntry {
+  brand: string;
+  phone: PhoneData;
+  dataset: ChartDataset | undefined;
+}
+
+type LensSnapshot = { role: LensRole; fields: Record<string, ChangeValue> };
+
+function indexPhones(phones: PhoneBrandData, chart: ChartData): Map<string, PhoneEntry> {
+  const datasets = new Map(chart.datasets.map(dataset => [dataset.id, dataset]));
+  const index = new Map<string, PhoneEntry>();
+  Object.entries(phones).forEach(([brand, brandPhones]) => {
+    brandPhones.forEach(phone => index.set(phone.id, { brand, phone, dataset: datasets.get(phone.id) }));
+  });
+  return index;
+}
+
+/** 可选的名称字段合并为文本后比较 */
+function phoneFields(phone: PhoneData): Record<string, unknown> {
+  return {
+    ...phone,
+    nameZh: phone.names?.zh,
+    nameEn: phone.names?.en,
+    aliases: phone.aliases?.join(' / '),
+    codenames: phone.codenames?.join(' / '),
+    variants: phone.variants?.map(variant => `${variant.region}：${variant.name}`).join(' / ')
+  };
+}
+
+function toChangeValue(value: unknown): ChangeValue {
+  return typeof value === 'string' || typeof value === 'number' ? value : null;
+}
+
+function snapshotLenses(dataset: ChartDataset | undefined): Map<string, LensSnapshot> {
+  const lenses = new Map<string, LensSnapshot>();
+  dataset?.originalLenses.forEach(lens => {
+    const detail = dataset.lensDetails[String(lens.focalLength)];
+    const fields: Record<string, ChangeValue> = {};
+    LENS_INFO_FIELDS.forEach(field => { fields[field] = toChangeValue(lens[field]); });
+    LENS_DETAIL_FIELDS.forEach(field => { fields[field] = toChangeValue(detail?.[field]); });
+    LENS_ZOOM_FIELDS.forEach(field => { fields[field] = toChangeValue(lens.zoom?.[field]); });
+    fields.cropModes = lens.cropModes?.length ? formatCropModes(lens.cropModes) : null;
+    lenses.set(lensDisplayName(lens), { role: lens.role, fields });
+  });
+  return lenses;
+}
+
+function diffFields(previous: Record<string, unknown>, next: Record<string, unknown>, fields: string[]): FieldChange[] {
+  return fields
+    .filter(field => toChangeValue(previous[field]) !== toChangeValue(next[field]))
+    .map(field => ({ field, from: toChangeValue(previous[field]), to: toChangeValue(next[field]) }));
+}
+
+function snapshotFields(snapshot: LensSnapshot, side: 'from' | 'to'): FieldChange[] {
+  return Object.entries(snapshot.fields)
+    .filter(([, value]) => value !== null && value !== '')
+    .map(([field, value]) => ({ field, from: side === 'from' ? value : null, to: side === 'to' ? value : null }));
+}
+
+function diffLenses(previous: ChartDataset | undefined, next: ChartDataset | undefined): LensChange[] {
+  const previousLenses = snapshotLenses(previous);
+  const nextLenses = snapshotLenses(next);
+  const changes: LensChange[] = [];
+
+  nextLenses.forEach((snapshot, lens) => {
+    const previousSnapshot = previousLenses.get(lens);
+    const base = { lens, role: snapshot.role, focalLength: snapshot.fields.focalLength as number };
+    if (!previousSnapshot) {
+      changes.push({ ...base, kind: 'added', changes: snapshotFields(snapshot, 'to') });
+      return;
+    }
+    const fieldChanges = diffFields(previousSnapshot.fields, snapshot.fields, Object.keys(snapshot.fields));
+    if (previousSnapshot.role !== snapshot.role) fieldChanges.unshift({ field: 'role', from: previousSnapshot.role, to: snapshot.role });
+    if (fieldChanges.length > 0) {
+      changes.push({ ...base, kind: 'changed', changes: fieldChanges });
+    }
+  });
+  previousLenses.forEach((snapshot, lens) => {
+    if (!nextLenses.has(lens)) {
+      changes.push({ lens, role: snapshot.role, kind: 'removed', focalLength: snapshot.fields.focalLength as number, changes: snapshotFields(snapshot, 'from') });
+    }
+  });
+
+  return changes.sort((a, b) => a.focalLength - b.focalLength);
+}
+
+/**
+ * 比较两次构建，按 id 对应机型；previous 为空表示第一次构建
+ */
+export function diffDatasets(
+  previous: { phones: PhoneBrandData; chart: ChartData } | null,
+  next: { phones: PhoneBrandData; chart: ChartData }
+): PhoneChange[] {
+  const previousPhones = previous ? indexPhones(previous.phones, previous.chart) : new Map<string, PhoneEntry>();
+  const nextPhones = indexPhones(next.phones, next.chart);
+  const changes: PhoneChange[] = [];
+
+  nextPhones.forEach(({ brand, phone, dataset }, id) => {
+    const previousEntry = previousPhones.get(id);
+    if (!previousEntry) {
+      changes.push({ id, brand, name: phone.name, kind: 'added', changes: [], lenses: diffLenses(undefined, dataset) });
+      return;
+    }
+    const phoneChanges = diffFields(phoneFields(previousEntry.phone), phoneFields(phone), PHONE_FIELDS);
+    const lensChanges = diffLenses(previousEntry.dataset, dataset);
+    if (phoneChanges.length > 0 || lensChanges.length > 0) {
+      changes.push({ id, brand, name: phone.name, kind: 'changed', changes: phoneChanges, lenses: lensChanges });
+    }
+  });
+  previousPhones.forEach(({ brand, phone, dataset }, id) => {
+    if (!nextPhones.has(id)) {
+      changes.push({ id, brand, name: phone.name, kind: 'removed', changes: [], lenses: diffLenses(dataset, undefined) });
+    }
+  });
+
+  return changes;
+}
+
+function formatValue(value: ChangeValue): string {
+  return value === null || value === '' ? '（空）' : String(value);
+}
+
+/**
+ * 生成便于在终端阅读的文本
+ */
+export function formatDiffReport(changes: PhoneChange[]): string[] {
+  const symbols = { added: '+', removed: '-', changed: '~' };
+  const lines: string[] = [];
+
+  changes.forEach(change => {
+    lines.push(`   ${symbols[change.kind]} ${change.brand}/${change.id}（${change.name}）`);
+    if (change.kind !== 'changed') return;
+    change.changes.forEach(field => lines.push(`       ${field.field}: ${formatValue(field.from)} → ${formatValue(field.to)}`));
+    change.lenses.forEach(lens => {
+      if (lens.kind !== 'changed') {
+        lines.push(`       ${symbols[lens.kind]} ${lens.lens} ${lens.focalLength}mm`);
+        return;
+      }
+      lens.changes.forEach(field => lines.push(`       ${lens.lens}.${field.field}: ${formatValue(field.from)} → ${formatValue(field.to)}`));
+    });
+  });
+
+  return lines;
+}
@@ -0,0 +1,24 @@
+/**
+ * 机型的稳定 ID 与 URL slug。
+ * ID 用于页面状态、链接以及两个 JSON 文件之间的关联，机型改名后保持不变；
+ * slug 随显示名称生成，仅用于可读的 URL
+ */
+
+/** ID 与 slug 只允许小写字母、数字和连字符 */
+export const PHONE_ID_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/**
+ * 由品牌 key 与机型名称生成 slug，例如
+ * `xiaomi` + `小米13ultra` -> `xiaomi-13ultra`，`vivo` + `vivo X90 Pro+` -> `vivo-x90-pro-plus`
+ */
+export function slugifyPhoneName(brand: string, name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/\+/g, ' plus')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  const brandSlug = brand.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+
+  if (!slug) return brandSlug;
+  return slug === brandSlug || slug.startsWith(`${brandSlug}-`) ? slug : `${brandSlug}-${slug}`;
+}
@@ -0,0 +1,7 @@
+export * from './types';
+export * from './ids';
+export * from './dates';
+export * from './validate';
+export * from './load';
+export * from './consistency';
+export * from './diff';
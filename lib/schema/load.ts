@@ -0,0 +1,33 @@
+import { assertChangelog, assertDataset } from './validate';
+import type { Changelog } from './diff';
+import type { ChartData, PhoneBrandData } from './types';
+
+export const PHONES_FILE = 'phones-enhanced.json';
+export const CHART_FILE = 'chart-enhanced.json';
+export const CHANGELOG_FILE = 'changelog.json';
+
+/**
+ * 从网站加载并校验机型与曲线数据，格式错误时抛出 DatasetValidationError
+ */
+export async function loadDataset(baseUrl = '/data'): Promise<{ phones: PhoneBrandData; chart: ChartData }> {
+  const [phoneResponse, chartResponse] = await Promise.all([
+    fetch(`${baseUrl}/${PHONES_FILE}`),
+    fetch(`${baseUrl}/${CHART_FILE}`)
+  ]);
+
+  if (!phoneResponse.ok) throw new Error(`无法加载 ${PHONES_FILE} (HTTP ${phoneResponse.status})`);
+  if (!chartResponse.ok) throw new Error(`无法加载 ${CHART_FILE} (HTTP ${chartResponse.status})`);
+
+  return assertDataset(await phoneResponse.json(), await chartResponse.json());
+}
+
+/**
+ * 加载数据更新记录；还没有生成过时返回空记录
+ */
+export async function loadChangelog(baseUrl = '/data'): Promise<Changelog> {
+  const response = await fetch(`${baseUrl}/${CHANGELOG_FILE}`);
+  if (response.status === 404) return { entries: [] };
+  if (!response.ok) throw new Error(`无法加载 ${CHANGELOG_FILE} (HTTP ${response.status})`);
+
+  return assertChangelog(await response.json());
+}
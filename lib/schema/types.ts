@@ -0,0 +1,176 @@
+/**
+ * 手机与镜头数据的统一结构，对应 public/data 下的 phones-enhanced.json 与 chart-enhanced.json
+ */
+
+/** 镜头用途；同一用途可以有多颗镜头（例如两颗长焦），用 label 区分 */
+export type LensRole = 'ultraWide' | 'main' | 'telephoto' | 'superTelephoto' | 'macro';
+
+export const LENS_ROLES: LensRole[] = ['ultraWide', 'main', 'telephoto', 'superTelephoto', 'macro'];
+
+/** 镜头用途的名称，同时也是工作表中该镜头的列名前缀 */
+export const LENS_ROLE_NAMES: Record<LensRole, string> = {
+  ultraWide: '超广角',
+  main: '主摄',
+  telephoto: '长焦',
+  superTelephoto: '超长焦',
+  macro: '微距'
+};
+
+/**
+ * 镜头的显示名称：有 label 时用 label（如 "长焦2"、"微距长焦"），否则用用途名称
+ */
+export function lensDisplayName(lens: { role: LensRole; label?: string }): string {
+  return lens.label || LENS_ROLE_NAMES[lens.role];
+}
+
+/** data/brands.json 中的一个品牌，新增品牌只需在其中添加一项 */
+export interface BrandInfo {
+  /** 品牌 key，用于 JSON 数据与机型 ID，如 "xiaomi" */
+  key: string;
+  /** 显示名称 */
+  names: { zh: string; en: string };
+  /** Excel 中对应的工作表名称 */
+  sheet: string;
+  /** 曲线颜色，同品牌机型依次使用；第一个颜色也用于品牌标题等处 */
+  palette: string[];
+  /** 品牌图标（public 下的路径），没有为 null */
+  logo: string | null;
+}
+
+/** data/sensors.json 中的一个传感器，镜头通过 sensorId 引用，规格只需登记一次 */
+export interface SensorInfo {
+  /** 传感器 ID，如 "sony-imx989" */
+  id: string;
+  /** 厂商，如 "Sony" */
+  vendor: string;
+  /** 型号，如 "IMX989" */
+  model: string;
+  /** 表格中的其他写法，如 "S5KHP9"，可为空数组 */
+  aliases: string[];
+  /** 有效像素区域的宽高（mm），来自规格书 */
+  widthMm: number;
+  heightMm: number;
+  /** 像素尺寸（µm） */
+  pixelPitchUm: number;
+  /** 分辨率（百万像素） */
+  resolutionMp: number;
+  /** 厂商标称的光学格式（英寸型号），如 "1/1.56" */
+  opticalFormat: string;
+}
+
+/** 机型的地区版本，如国际版、印度版使用的名称 */
+export interface PhoneVariant {
+  region: string;
+  name: string;
+}
+
+/** phones-enhanced.json 中的机型基本信息 */
+export interface PhoneData {
+  /** 稳定 ID，机型改名后不变（见 ids.ts） */
+  id: string;
+  slug: string;
+  name: string;
+  /** 表格中的原文，用于显示 */
+  releaseDate: string;
+  /** 解析后的 ISO 日期（YYYY-MM-DD，或精度更低的 YYYY-MM / YYYY），无法解析为 null，见 dates.ts */
+  releaseDateIso: string | null;
+  level: string;
+  releaseYear: number | null;
+  /** 官方中英文名称；name 是表格中的写法，两者可能不同。以下名称字段都是可选的，没有时省略 */
+  names?: { zh?: string; en?: string };
+  /** 别名与常见写法 */
+  aliases?: string[];
+  /** 开发代号 */
+  codenames?: string[];
+  variants?: PhoneVariant[];
+}
+
+/** phones-enhanced.json：品牌 -> 机型列表 */
+export interface PhoneBrandData {
+  [brand: string]: PhoneData[];
+}
+
+/** 镜头的原始规格，按等效焦距索引在 lensDetails 中 */
+export interface LensDetail {
+  /** 表格中填写的传感器型号 */
+  sensor: string;
+  /** 传感器已在 data/sensors.json 中登记时为其 ID，未登记时省略 */
+  sensorId?: string;
+  sensorSize: string;
+  physicalFocalLength: number | null;
+  equivalentFocalLength: number;
+  aperture: string;
+  equivalentAperture: string;
+}
+
+/** 由物理规格推算（而非表格填写）的字段 */
+export type DerivedLensField = 'conversionFactor' | 'equivalentFocalLength' | 'equivalentAperture' | 'maxAperture';
+
+export const DERIVED_LENS_FIELDS: DerivedLensField[] = ['conversionFactor', 'equivalentFocalLength', 'equivalentAperture', 'maxAperture'];
+
+/** 传感器内裁切模式，如 1 英寸主摄的 2x 裁切（48mm） */
+export interface LensCropMode {
+  /** 裁切后的等效焦距 */
+  focalLength: number;
+  /** 输出分辨率（百万像素），未知为 null */
+  resolution: number | null;
+}
+
+/**
+ * 裁切模式的文本形式，与表格中“传感器内裁切”列的写法相同，如 "48mm 12MP / 96mm"
+ */
+export function formatCropModes(cropModes: LensCropMode[]): string {
+  return cropModes
+    .map(mode => (mode.resolution !== null ? `${mode.focalLength}mm ${mode.resolution}MP` : `${mode.focalLength}mm`))
+    .join(' / ');
+}
+
+/** 连续光学变焦镜头的长焦端，同一传感器，光圈随焦距变化 */
+export interface LensZoomRange {
+  maxFocalLength: number;
+  /** 长焦端的等效光圈 */
+  maxAperture: number;
+  /** 长焦端的物理光圈 */
+  maxPhysicalApertureValue: number | null;
+}
+
+/**
+ * 用于绘制曲线的原生镜头，originalLenses 按等效焦距排列，数量不限。
+ * 连续光学变焦镜头的 focalLength / aperture 为广角端，zoom 为长焦端
+ */
+export interface LensInfo {
+  focalLength: number;
+  aperture: number;
+  role: LensRole;
+  /** 自定义名称，仅在与用途名称不同时出现 */
+  label?: string;
+  physicalApertureValue: number | null;
+  conversionFactor: number | null;
+  zoom?: LensZoomRange;
+  /** 传感器内裁切模式，按焦距排列 */
+  cropModes?: LensCropMode[];
+  /** 表格中未填写、由传感器尺寸与物理焦距/光圈推算出的字段 */
+  derived?: DerivedLensField[];
+}
+
+/** chart-enhanced.json 中每台机型的曲线数据；页面会把 data 替换成各自的点位 */
+export interface ChartDataset<TPoint = number | null> {
+  /** 与 phones-enhanced.json 中机型的 id 对应 */
+  id: string;
+  slug: string;
+  label: string;
+  data: TPoint[];
+  borderColor: string;
+  backgroundColor: string;
+  tension: number;
+  brand: string;
+  releaseYear: number | null;
+  lensDetails: { [focalLength: string]: LensDetail };
+  originalLenses: LensInfo[];
+}
+
+/** chart-enhanced.json */
+export interface ChartData<TPoint = number | null> {
+  labels: string[];
+  datasets: ChartDataset<TPoint>[];
+}
@@ -0,0 +1,478 @@
+import { RELEASE_DATE_PATTERN } from './dates';
+import { PHONE_ID_PATTERN } from './ids';
+import { DERIVED_LENS_FIELDS, LENS_ROLES } from './types';
+import type { Changelog } from './diff';
+import type { BrandInfo, ChartData, PhoneBrandData, SensorInfo } from './types';
+
+/**
+ * 数据校验：定位到具体机型和字段，例如
+ * `datasets[3] (小米14ultra).originalLenses[1].aperture: 应为数字，实际为 "f/1.8"`
+ */
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export class DatasetValidationError extends Error {
+  readonly source: string;
+  readonly issues: ValidationIssue[];
+
+  constructor(source: string, issues: ValidationIssue[]) {
+    const preview = issues.slice(0, 5).map(issue => `  - ${issue.path}: ${issue.message}`).join('\n');
+    const more = issues.length > 5 ? `\n  ... 另有 ${issues.length - 5} 处问题` : '';
+    super(`${source} 数据格式错误（${issues.length} 处）:\n${preview}${more}`);
+    this.name = 'DatasetValidationError';
+    this.source = source;
+    this.issues = issues;
+  }
+}
+
+type Row = Record<string, unknown>;
+
+function describe(value: unknown): string {
+  if (value === undefined) return '缺失';
+  if (value === null) return 'null';
+  if (typeof value === 'string') return `"${value}"`;
+  if (Array.isArray(value)) return '数组';
+  if (typeof value === 'object') return '对象';
+  return String(value);
+}
+
+function isRecord(value: unknown): value is Row {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+class IssueCollector {
+  readonly issues: ValidationIssue[] = [];
+
+  add(path: string, message: string) {
+    this.issues.push({ path, message });
+  }
+
+  record(value: unknown, path: string): value is Row {
+    if (isRecord(value)) return true;
+    this.add(path, `应为对象，实际为 ${describe(value)}`);
+    return false;
+  }
+
+  array(value: unknown, path: string): value is unknown[] {
+    if (Array.isArray(value)) return true;
+    this.add(path, `应为数组，实际为 ${describe(value)}`);
+    return false;
+  }
+
+  string(row: Row, key: string, path: string, { allowEmpty = true } = {}) {
+    const value = row[key];
+    if (typeof value !== 'string') {
+      this.add(`${path}.${key}`, `应为字符串，实际为 ${describe(value)}`);
+    } else if (!allowEmpty && value.trim() === '') {
+      this.add(`${path}.${key}`, '不能为空');
+    }
+  }
+
+  /** 稳定 ID / slug：非空、URL 安全，unique 传入时还要求不重复 */
+  identifier(row: Row, key: string, path: string, unique?: Map<string, string>) {
+    const value = row[key];
+    if (typeof value !== 'string' || !PHONE_ID_PATTERN.test(value)) {
+      this.add(`${path}.${key}`, `应为小写字母、数字和连字符组成的字符串，实际为 ${describe(value)}`);
+      return;
+    }
+    if (!unique) return;
+    const existing = unique.get(value);
+    if (existing !== undefined) {
+      this.add(`${path}.${key}`, `"${value}" 与 ${existing} 重复`);
+    } else {
+      unique.set(value, path);
+    }
+  }
+
+  number(row: Row, key: string, path: string, { nullable = false, positive = false } = {}) {
+    const value = row[key];
+    if (nullable && value === null) return;
+    if (!isFiniteNumber(value)) {
+      this.add(`${path}.${key}`, `应为数字${nullable ? '或 null' : ''}，实际为 ${describe(value)}`);
+    } else if (positive && value <= 0) {
+      this.add(`${path}.${key}`, `应为正数，实际为 ${value}`);
+    }
+  }
+}
+
+function labelled(path: string, name: unknown): string {
+  return typeof name === 'string' && name ? `${path} (${name})` : path;
+}
+
+function validateNameList(collector: IssueCollector, phone: Row, key: string, path: string) {
+  if (phone[key] === undefined || !collector.array(phone[key], `${path}.${key}`)) return;
+  phone[key].forEach((name, index) => {
+    if (typeof name !== 'string' || name.trim() === '') {
+      collector.add(`${path}.${key}[${index}]`, `应为非空字符串，实际为 ${describe(name)}`);
+    }
+  });
+}
+
+/** 可选的名称字段：names、aliases、codenames、variants */
+function validatePhoneNames(collector: IssueCollector, phone: Row, path: string) {
+  if (phone.names !== undefined && collector.record(phone.names, `${path}.names`)) {
+    const names = phone.names;
+    (['zh', 'en'] as const).forEach(locale => {
+      if (names[locale] !== undefined) collector.string(names, locale, `${path}.names`, { allowEmpty: false });
+    });
+  }
+  validateNameList(collector, phone, 'aliases', path);
+  validateNameList(collector, phone, 'codenames', path);
+  if (phone.variants !== undefined && collector.array(phone.variants, `${path}.variants`)) {
+    phone.variants.forEach((variant, index) => {
+      const variantPath = `${path}.variants[${index}]`;
+      if (!collector.record(variant, variantPath)) return;
+      collector.string(variant, 'region', variantPath, { allowEmpty: false });
+      collector.string(variant, 'name', variantPath, { allowEmpty: false });
+    });
+  }
+}
+
+/**
+ * 校验 phones-enhanced.json
+ */
+export function validatePhoneBrandData(value: unknown): ValidationIssue[] {
+  const collector = new IssueCollector();
+  if (!collector.record(value, '$')) return collector.issues;
+  const ids = new Map<string, string>();
+
+  Object.entries(value).forEach(([brand, phones]) => {
+    if (!collector.array(phones, brand)) return;
+
+    phones.forEach((phone, index) => {
+      const path = `${brand}[${index}]`;
+      if (!collector.record(phone, path)) return;
+      const phonePath = labelled(path, phone.name);
+
+      collector.identifier(phone, 'id', phonePath, ids);
+      collector.identifier(phone, 'slug', phonePath);
+      collector.string(phone, 'name', phonePath, { allowEmpty: false });
+      collector.string(phone, 'releaseDate', phonePath);
+      if (phone.releaseDateIso !== null && (typeof phone.releaseDateIso !== 'string' || !RELEASE_DATE_PATTERN.test(phone.releaseDateIso))) {
+        collector.add(`${phonePath}.releaseDateIso`, `应为 YYYY-MM-DD / YYYY-MM / YYYY 或 null，实际为 ${describe(phone.releaseDateIso)}`);
+      }
+      collector.string(phone, 'level', phonePath);
+      collector.number(phone, 'releaseYear', phonePath, { nullable: true, positive: true });
+      validatePhoneNames(collector, phone, phonePath);
+    });
+  });
+
+  return collector.issues;
+}
+
+/**
+ * 校验 chart-enhanced.json
+ */
+export function validateChartData(value: unknown): ValidationIssue[] {
+  const collector = new IssueCollector();
+  if (!collector.record(value, '$')) return collector.issues;
+
+  if (collector.array(value.labels, 'labels')) {
+    value.labels.forEach((label, index) => {
+      if (typeof label !== 'string' || Number.isNaN(parseFloat(label))) {
+        collector.add(`labels[${index}]`, `应为 "24mm" 形式的焦段，实际为 ${describe(label)}`);
+      }
+    });
+  }
+
+  if (!collector.array(value.datasets, 'datasets')) return collector.issues;
+  const ids = new Map<string, string>();
+
+  value.datasets.forEach((dataset, index) => {
+    const path = `datasets[${index}]`;
+    if (!collector.record(dataset, path)) return;
+    const datasetPath = labelled(path, dataset.label);
+
+    collector.identifier(dataset, 'id', datasetPath, ids);
+    collector.identifier(dataset, 'slug', datasetPath);
+    collector.string(dataset, 'label', datasetPath, { allowEmpty: false });
+    collector.array(dataset.data, `${datasetPath}.data`);
+    collector.string(dataset, 'borderColor', datasetPath);
+    collector.string(dataset, 'backgroundColor', datasetPath);
+    collector.number(dataset, 'tension', datasetPath);
+    collector.string(dataset, 'brand', datasetPath, { allowEmpty: false });
+    collector.number(dataset, 'releaseYear', datasetPath, { nullable: true, positive: true });
+
+    const detailsPath = `${datasetPath}.lensDetails`;
+    if (collector.record(dataset.lensDetails, detailsPath)) {
+      Object.entries(dataset.lensDetails).forEach(([focalLength, detail]) => {
+        const detailPath = `${detailsPath}["${focalLength}"]`;
+        if (!collector.record(detail, detailPath)) return;
+
+        collector.string(detail, 'sensor', detailPath);
+        if (detail.sensorId !== undefined) collector.identifier(detail, 'sensorId', detailPath);
+        collector.string(detail, 'sensorSize', detailPath);
+        collector.number(detail, 'physicalFocalLength', detailPath, { nullable: true, positive: true });
+        collector.number(detail, 'equivalentFocalLength', detailPath, { positive: true });
+        collector.string(detail, 'aperture', detailPath);
+        collector.string(detail, 'equivalentAperture', detailPath);
+      });
+    }
+
+    const lensesPath = `${datasetPath}.originalLenses`;
+    if (collector.array(dataset.originalLenses, lensesPath)) {
+      dataset.originalLenses.forEach((lens, lensIndex, lenses) => {
+        const lensPath = `${lensesPath}[${lensIndex}]`;
+        if (!collector.record(lens, lensPath)) return;
+
+        collector.number(lens, 'focalLength', lensPath, { positive: true });
+        collector.number(lens, 'aperture', lensPath, { positive: true });
+        if (!LENS_ROLES.includes(lens.role as never)) {
+          collector.add(`${lensPath}.role`, `应为 ${LENS_ROLES.join(' / ')} 之一，实际为 ${describe(lens.role)}`);
+        }
+        if (lens.label !== undefined) collector.string(lens, 'label', lensPath, { allowEmpty: false });
+        collector.number(lens, 'physicalApertureValue', lensPath, { nullable: true, positive: true });
+        collector.number(lens, 'conversionFactor', lensPath, { nullable: true, positive: true });
+        if (lens.zoom !== undefined && collector.record(lens.zoom, `${lensPath}.zoom`)) {
+          const zoomPath = `${lensPath}.zoom`;
+          collector.number(lens.zoom, 'maxFocalLength', zoomPath, { positive: true });
+          collector.number(lens.zoom, 'maxAperture', zoomPath, { positive: true });
+          collector.number(lens.zoom, 'maxPhysicalApertureValue', zoomPath, { nullable: true, positive: true });
+          if (isFiniteNumber(lens.zoom.maxFocalLength) && isFiniteNumber(lens.focalLength) && lens.zoom.maxFocalLength <= lens.focalLength) {
+            collector.add(`${zoomPath}.maxFocalLength`, `长焦端 ${lens.zoom.maxFocalLength}mm 应大于广角端 ${lens.focalLength}mm`);
+          }
+        }
+        if (lens.cropModes !== undefined && collector.array(lens.cropModes, `${lensPath}.cropModes`)) {
+          lens.cropModes.forEach((mode, modeIndex) => {
+            const modePath = `${lensPath}.cropModes[${modeIndex}]`;
+            if (!collector.record(mode, modePath)) return;
+            collector.number(mode, 'focalLength', modePath, { positive: true });
+            collector.number(mode, 'resolution', modePath, { nullable: true, positive: true });
+            const opticalEnd = isRecord(lens.zoom) && isFiniteNumber(lens.zoom.maxFocalLength) ? lens.zoom.maxFocalLength : lens.focalLength;
+            if (isFiniteNumber(mode.focalLength) && isFiniteNumber(opticalEnd) && mode.focalLength <= opticalEnd) {
+              collector.add(`${modePath}.focalLength`, `裁切焦距 ${mode.focalLength}mm 应大于镜头焦距 ${opticalEnd}mm`);
+            }
+          });
+        }
+        if (lens.derived !== undefined && collector.array(lens.derived, `${lensPath}.derived`)) {
+          lens.derived.forEach((field, fieldIndex) => {
+            if (!DERIVED_LENS_FIELDS.includes(field as never)) {
+              collector.add(`${lensPath}.derived[${fieldIndex}]`, `应为 ${DERIVED_LENS_FIELDS.join(' / ')} 之一，实际为 ${describe(field)}`);
+            }
+          });
+        }
+
+        if (isFiniteNumber(lens.focalLength) && isRecord(dataset.lensDetails) && !(String(lens.focalLength) in dataset.lensDetails)) {
+          collector.add(`${lensPath}.focalLength`, `lensDetails 中缺少 ${lens.focalLength}mm 的镜头规格`);
+        }
+        // lensDetails 按等效焦距索引，同一机型的两颗镜头不能使用相同的等效焦距
+        const sameFocalIndex = lenses
+          .slice(0, lensIndex)
+          .findIndex(other => isRecord(other) && isFiniteNumber(other.focalLength) && other.focalLength === lens.focalLength);
+        if (sameFocalIndex !== -1) {
+          collector.add(`${lensPath}.focalLength`, `与 ${lensesPath}[${sameFocalIndex}] 的等效焦距 ${lens.focalLength}mm 相同`);
+        }
+      });
+    }
+  });
+
+  return collector.issues;
+}
+
+/**
+ * 交叉校验两个文件：每条曲线都应能在 phones-enhanced.json 的对应品牌下按 id 找到机型
+ */
+export function validateDatasetPair(phones: PhoneBrandData, chart: ChartData): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  chart.datasets.forEach((dataset, index) => {
+    const brandPhones = phones[dataset.brand];
+    const path = labelled(`datasets[${index}]`, dataset.label);
+    if (!brandPhones) {
+      issues.push({ path: `${path}.brand`, message: `phones-enhanced.json 中没有品牌 "${dataset.brand}"` });
+    } else if (!brandPhones.some(phone => phone.id === dataset.id)) {
+      issues.push({ path: `${path}.id`, message: `phones-enhanced.json 的 ${dataset.brand} 下没有 id 为 "${dataset.id}" 的机型` });
+    }
+  });
+
+  return issues;
+}
+
+const CHANGE_KINDS = ['added', 'removed', 'changed'];
+
+function checkChangeKind(collector: IssueCollector, row: Row, path: string) {
+  if (!CHANGE_KINDS.includes(row.kind as string)) {
+    collector.add(`${path}.kind`, `应为 ${CHANGE_KINDS.join(' / ')} 之一，实际为 ${describe(row.kind)}`);
+  }
+}
+
+/** 字段变更列表：字段名与旧值、新值（字符串、数字或 null） */
+function checkFieldChanges(collector: IssueCollector, value: unknown, path: string) {
+  if (!collector.array(value, path)) return;
+
+  value.forEach((change, index) => {
+    const changePath = `${path}[${index}]`;
+    if (!collector.record(change, changePath)) return;
+
+    collector.string(change, 'field', changePath, { allowEmpty: false });
+    (['from', 'to'] as const).forEach(key => {
+      const fieldValue = change[key];
+      if (fieldValue !== null && typeof fieldValue !== 'string' && !isFiniteNumber(fieldValue)) {
+        collector.add(`${changePath}.${key}`, `应为字符串、数字或 null，实际为 ${describe(fieldValue)}`);
+      }
+    });
+  });
+}
+
+/**
+ * 校验品牌登记表 data/brands.json：key 与工作表名称不能重复，颜色为 #RRGGBB
+ */
+export function validateBrandRegistry(value: unknown): ValidationIssue[] {
+  const collector = new IssueCollector();
+  if (!collector.array(value, '$')) return collector.issues;
+
+  const keys = new Map<string, string>();
+  const sheets = new Map<string, string>();
+  value.forEach((brand, index) => {
+    const path = `[${index}]`;
+    if (!collector.record(brand, path)) return;
+    const brandPath = labelled(path, brand.key);
+
+    collector.identifier(brand, 'key', brandPath, keys);
+    if (collector.record(brand.names, `${brandPath}.names`)) {
+      collector.string(brand.names, 'zh', `${brandPath}.names`, { allowEmpty: false });
+      collector.string(brand.names, 'en', `${brandPath}.names`, { allowEmpty: false });
+    }
+    collector.string(brand, 'sheet', brandPath, { allowEmpty: false });
+    if (typeof brand.sheet === 'string') {
+      const existing = sheets.get(brand.sheet);
+      if (existing !== undefined) collector.add(`${brandPath}.sheet`, `"${brand.sheet}" 与 ${existing} 重复`);
+      else sheets.set(brand.sheet, brandPath);
+    }
+    if (collector.array(brand.palette, `${brandPath}.palette`)) {
+      if (brand.palette.length === 0) collector.add(`${brandPath}.palette`, '至少需要一个颜色');
+      brand.palette.forEach((color, colorIndex) => {
+        if (typeof color !== 'string' || !/^#[0-9a-f]{6}$/i.test(color)) {
+          collector.add(`${brandPath}.palette[${colorIndex}]`, `应为 #RRGGBB 格式的颜色，实际为 ${describe(color)}`);
+        }
+      });
+    }
+    if (brand.logo !== null) collector.string(brand, 'logo', brandPath, { allowEmpty: false });
+  });
+
+  return collector.issues;
+}
+
+export function assertBrandRegistry(value: unknown, source = 'data/brands.json'): BrandInfo[] {
+  const issues = validateBrandRegistry(value);
+  if (issues.length > 0) throw new DatasetValidationError(source, issues);
+  return value as BrandInfo[];
+}
+
+/**
+ * 校验传感器登记表 data/sensors.json：ID 不能重复，尺寸、像素尺寸与分辨率为正数
+ */
+export function validateSensorRegistry(value: unknown): ValidationIssue[] {
+  const collector = new IssueCollector();
+  if (!collector.array(value, '$')) return collector.issues;
+
+  const ids = new Map<string, string>();
+  value.forEach((sensor, index) => {
+    const path = `[${index}]`;
+    if (!collector.record(sensor, path)) return;
+    const sensorPath = labelled(path, sensor.id);
+
+    collector.identifier(sensor, 'id', sensorPath, ids);
+    collector.string(sensor, 'vendor', sensorPath, { allowEmpty: false });
+    collector.string(sensor, 'model', sensorPath, { allowEmpty: false });
+    if (collector.array(sensor.aliases, `${sensorPath}.aliases`)) validateNameList(collector, sensor, 'aliases', sensorPath);
+    collector.number(sensor, 'widthMm', sensorPath, { positive: true });
+    collector.number(sensor, 'heightMm', sensorPath, { positive: true });
+    collector.number(sensor, 'pixelPitchUm', sensorPath, { positive: true });
+    collector.number(sensor, 'resolutionMp', sensorPath, { positive: true });
+    collector.string(sensor, 'opticalFormat', sensorPath, { allowEmpty: false });
+    if (typeof sensor.opticalFormat === 'string' && !/^\d+(\.\d+)?(\/\d+(\.\d+)?)?$/.test(sensor.opticalFormat)) {
+      collector.add(`${sensorPath}.opticalFormat`, `应为 "1/1.56" 形式的英寸型号，实际为 ${describe(sensor.opticalFormat)}`);
+    }
+  });
+
+  return collector.issues;
+}
+
+export function assertSensorRegistry(value: unknown, source = 'data/sensors.json'): SensorInfo[] {
+  const issues = validateSensorRegistry(value);
+  if (issues.length > 0) throw new DatasetValidationError(source, issues);
+  return value as SensorInfo[];
+}
+
+/**
+ * 校验 changelog.json
+ */
+export function validateChangelog(value: unknown): ValidationIssue[] {
+  const collector = new IssueCollector();
+  if (!collector.record(value, '$')) return collector.issues;
+  if (!collector.array(value.entries, 'entries')) return collector.issues;
+
+  value.entries.forEach((entry, index) => {
+    const path = `entries[${index}]`;
+    if (!collector.record(entry, path)) return;
+    if (typeof entry.date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(entry.date)) {
+      collector.add(`${path}.date`, `应为 YYYY-MM-DD 格式的日期，实际为 ${describe(entry.date)}`);
+    }
+    if (!collector.array(entry.changes, `${path}.changes`)) return;
+
+    entry.changes.forEach((change, changeIndex) => {
+      const changePath = `${path}.changes[${changeIndex}]`;
+      if (!collector.record(change, changePath)) return;
+      const labelledPath = labelled(changePath, change.name);
+      collector.identifier(change, 'id', labelledPath);
+      collector.string(change, 'brand', labelledPath, { allowEmpty: false });
+      collector.string(change, 'name', labelledPath);
+      checkChangeKind(collector, change, labelledPath);
+      checkFieldChanges(collector, change.changes, `${labelledPath}.changes`);
+
+      const lensesPath = `${labelledPath}.lenses`;
+      if (!collector.array(change.lenses, lensesPath)) return;
+      change.lenses.forEach((lens, lensIndex) => {
+        const lensPath = `${lensesPath}[${lensIndex}]`;
+        if (!collector.record(lens, lensPath)) return;
+
+        collector.string(lens, 'lens', lensPath, { allowEmpty: false });
+        if (!LENS_ROLES.includes(lens.role as never)) {
+          collector.add(`${lensPath}.role`, `应为 ${LENS_ROLES.join(' / ')} 之一，实际为 ${describe(lens.role)}`);
+        }
+        checkChangeKind(collector, lens, lensPath);
+        collector.number(lens, 'focalLength', lensPath, { positive: true });
+        checkFieldChanges(collector, lens.changes, `${lensPath}.changes`);
+      });
+    });
+  });
+
+  return collector.issues;
+}
+
+export function assertChangelog(value: unknown, source = 'changelog.json'): Changelog {
+  const issues = validateChangelog(value);
+  if (issues.length > 0) throw new DatasetValidationError(source, issues);
+  return value as Changelog;
+}
+
+export function assertPhoneBrandData(value: unknown, source = 'phones-enhanced.json'): PhoneBrandData {
+  const issues = validatePhoneBrandData(value);
+  if (issues.length > 0) throw new DatasetValidationError(source, issues);
+  return value as PhoneBrandData;
+}
+
+export function assertChartData(value: unknown, source = 'chart-enhanced.json'): ChartData {
+  const issues = validateChartData(value);
+  if (issues.length > 0) throw new DatasetValidationError(source, issues);
+  return value as ChartData;
+}
+
+/**
+ * 同时校验两个文件及其对应关系，返回带类型的数据
+ */
+export function assertDataset(phones: unknown, chart: unknown): { phones: PhoneBrandData; chart: ChartData } {
+  const validPhones = assertPhoneBrandData(phones);
+  const validChart = assertChartData(chart);
+  const pairIssues = validateDatasetPair(validPhones, validChart);
+  if (pairIssues.length > 0) throw new DatasetValidationError('phones-enhanced.json / chart-enhanced.json', pairIssues);
+  return { phones: validPhones, chart: validChart };
+}
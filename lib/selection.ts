@@ -0,0 +1,79 @@
+import { buildPhoneNameIndex, normalizePhoneName } from './phone-names';
+import type { PhoneBrandData } from './schema';
+
+/**
+ * 已选机型的保存与分享：以机型 id 记录，机型改名后收藏与链接仍然有效。
+ * 读取时 URL 参数 ?phones=id1,id2 优先（也接受 slug 与机型名称、别名），其次是 localStorage
+ */
+
+export const SELECTION_QUERY_PARAM = 'phones';
+
+/**
+ * 建立 id / slug / 归一化名称 -> id 的索引
+ */
+export function buildPhoneIdIndex(phones: PhoneBrandData): Map<string, string> {
+  const index = buildPhoneNameIndex(phones);
+  Object.values(phones).flat().forEach(phone => {
+    index.set(phone.slug, phone.id);
+  });
+  // id 优先于 slug：某机型改名后的 slug 恰好等于另一台机型的 id 时，以 id 为准
+  Object.values(phones).flat().forEach(phone => {
+    index.set(phone.id, phone.id);
+  });
+  return index;
+}
+
+function resolveIds(tokens: string[], index: Map<string, string>): Set<string> {
+  const ids = new Set<string>();
+  tokens.forEach(token => {
+    const id = index.get(token.trim()) ?? index.get(normalizePhoneName(token));
+    if (id) ids.add(id);
+  });
+  return ids;
+}
+
+/**
+ * 读取已保存的选择，没有保存过（或保存的机型都已不存在）时返回 null
+ */
+export function readSelection(storageKey: string, index: Map<string, string>): Set<string> | null {
+  if (typeof window === 'undefined') return null;
+
+  const fromQuery = new URLSearchParams(window.location.search).get(SELECTION_QUERY_PARAM);
+  if (fromQuery) {
+    const ids = resolveIds(fromQuery.split(','), index);
+    if (ids.size > 0) return ids;
+  }
+
+  try {
+    const stored = window.localStorage.getItem(storageKey);
+    if (!stored) return null;
+    const parsed: unknown = JSON.parse(stored);
+    if (!Array.isArray(parsed)) return null;
+    const ids = resolveIds(parsed.filter((token): token is string => typeof token === 'string'), index);
+    return ids.size > 0 ? ids : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 保存选择到 localStorage，并同步到当前 URL 以便分享
+ */
+export function writeSelection(storageKey: string, ids: Set<string>) {
+  if (typeof window === 'undefined') return;
+
+  const list = Array.from(ids);
+  try {
+    window.localStorage.setItem(storageKey, JSON.stringify(list));
+  } catch {
+    // 隐私模式等情况下无法写入，忽略
+  }
+
+  const url = new URL(window.location.href);
+  if (list.length > 0) {
+    url.searchParams.set(SELECTION_QUERY_PARAM, list.join(','));
+  } else {
+    url.searchParams.delete(SELECTION_QUERY_PARAM);
+  }
+  window.history.replaceState(window.history.state, '', url);
+}
@@ -0,0 +1,127 @@
+import registry from '../data/sensors.json';
+import { analyzeDiffraction, croppedMegapixels, cropFactorFromDiagonal, cropStartFocalLength, lensOpticsAt, parseSensorSize, selectBasisLens, sensorDiagonal, zoomCropRatio } from './optics';
+import type { DiffractionAnalysis, LensOptics, OpticalLens, PhysicalLens, SensorFormat } from './optics';
+import { assertSensorRegistry } from './schema/validate';
+import type { LensDetail, SensorInfo } from './schema/types';
+
+/**
+ * 传感器登记表：型号、厂商、有效像素区域的实际尺寸、像素尺寸、分辨率与光学格式都来自 data/sensors.json，
+ * 镜头通过 lensDetails 中的 sensorId 引用。已登记传感器的尺寸计算使用实际对角线，
+ * 不再按光学格式的 16mm/18mm 经验基准换算
+ */
+
+export const SENSORS: SensorInfo[] = assertSensorRegistry(registry);
+
+const SENSORS_BY_ID = new Map(SENSORS.map(sensor => [sensor.id, sensor]));
+
+/** 去掉空格、连字符等，"Sony IMX-858"、"sony imx858" 视为同一写法 */
+function normalizeSensorName(text: string): string {
+  return text.normalize('NFKC').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+}
+
+/** 归一化写法 -> 传感器 ID：ID、型号、别名，以及带厂商前缀的型号和别名 */
+const SENSOR_NAME_INDEX = new Map<string, string>();
+SENSORS.forEach(sensor => {
+  [sensor.id, ...[sensor.model, ...sensor.aliases].flatMap(name => [name, `${sensor.vendor} ${name}`])].forEach(name => {
+    SENSOR_NAME_INDEX.set(normalizeSensorName(name), sensor.id);
+  });
+});
+
+export function getSensor(id: string | null | undefined): SensorInfo | undefined {
+  return id ? SENSORS_BY_ID.get(id) : undefined;
+}
+
+/**
+ * 传感器显示名称，如 "Sony IMX989"
+ */
+export function sensorDisplayName(sensor: SensorInfo): string {
+  return `${sensor.vendor} ${sensor.model}`;
+}
+
+/**
+ * 把表格中的传感器型号（"Sony IMX858"、"IMX858"、"Samsung S5KHP9" 或 ID）解析为传感器 ID，未登记返回 null
+ */
+export function resolveSensor(value: string): string | null {
+  const normalized = normalizeSensorName(value);
+  return normalized ? SENSOR_NAME_INDEX.get(normalized) ?? null : null;
+}
+
+/**
+ * 有效像素区域的实际对角线（mm）
+ */
+export function sensorActiveDiagonal(sensor: SensorInfo): number {
+  return Math.hypot(sensor.widthMm, sensor.heightMm);
+}
+
+/**
+ * 镜头传感器的对角线（mm）：已登记的传感器使用实际尺寸，否则按填写的英寸型号估算，都没有时返回 null
+ */
+export function lensSensorDiagonal(detail: Pick<LensDetail, 'sensorId' | 'sensorSize'> | undefined): number | null {
+  if (!detail) return null;
+  const sensor = getSensor(detail.sensorId);
+  if (sensor) return sensorActiveDiagonal(sensor);
+  const size = detail.sensorSize ? parseSensorSize(detail.sensorSize) : NaN;
+  return Number.isFinite(size) && size > 0 ? sensorDiagonal(size) : null;
+}
+
+/**
+ * 镜头传感器相对全画幅的裁切系数，规则同 lensSensorDiagonal
+ */
+export function lensSensorCropFactor(detail: Pick<LensDetail, 'sensorId' | 'sensorSize'> | undefined): number | null {
+  const diagonal = lensSensorDiagonal(detail);
+  return diagonal !== null ? cropFactorFromDiagonal(diagonal) : null;
+}
+
+/**
+ * 换算等效传感器大小所需的规格：标称型号取填写的尺寸（未填写时取登记表），对角线与面积取登记表中的实际尺寸；
+ * 没有可用的标称型号时返回 null
+ */
+export function lensSensorFormat(detail: Pick<LensDetail, 'sensorId' | 'sensorSize'> | undefined): SensorFormat | null {
+  if (!detail) return null;
+  const sensor = getSensor(detail.sensorId);
+  const nominalSize = parseSensorSize(detail.sensorSize || sensor?.opticalFormat || '');
+  if (!Number.isFinite(nominalSize) || nominalSize <= 0) return null;
+  return {
+    nominalSize,
+    diagonalMm: sensor ? sensorActiveDiagonal(sensor) : null,
+    areaMm2: sensor ? sensor.widthMm * sensor.heightMm : null
+  };
+}
+
+/**
+ * 镜头传感器的分辨率（MP），传感器未登记时返回 null
+ */
+export function lensSensorResolution(detail: Pick<LensDetail, 'sensorId'> | undefined): number | null {
+  return getSensor(detail?.sensorId)?.resolutionMp ?? null;
+}
+
+/**
+ * 手机在目标焦距的输出像素（MP）：镜头按 selectBasisLens 选取，超出焦段按裁切计算；
+ * 比最广角镜头更广或传感器未登记时返回 null
+ */
+export function megapixelsAtFocalLength(
+  targetFocalLength: number,
+  lenses: OpticalLens[],
+  lensDetails: { [focalLength: string]: Pick<LensDetail, 'sensorId'> } | undefined
+): number | null {
+  const basisLens = selectBasisLens(targetFocalLength, lenses);
+  if (!basisLens || basisLens.focalLength <= 0) return null;
+  const resolution = lensSensorResolution(lensDetails?.[basisLens.focalLength.toString()]);
+  if (resolution === null) return null;
+  return croppedMegapixels(resolution, zoomCropRatio(cropStartFocalLength(basisLens, targetFocalLength), targetFocalLength));
+}
+
+/**
+ * 镜头在某一等效焦距（焦段内）的衍射分析：物理光圈来自 lensOpticsAt，像素尺寸来自传感器登记表；
+ * 传感器未登记或镜头缺少转换系数时返回 null
+ */
+export function lensDiffractionAt(
+  lens: PhysicalLens,
+  detail: Pick<LensDetail, 'sensorId'> | undefined,
+  focalLength: number
+): { sensor: SensorInfo; optics: LensOptics; analysis: DiffractionAnalysis } | null {
+  const sensor = getSensor(detail?.sensorId);
+  const optics = sensor ? lensOpticsAt(lens, focalLength) : null;
+  if (!sensor || !optics) return null;
+  return { sensor, optics, analysis: analyzeDiffraction(sensor, optics.aperture) };
+}
@@ -0,0 +1,596 @@
+import * as XLSX from 'xlsx';
+import { brandForSheet, brandPalette, resolveBrand, sheetNameForBrand } from './brands';
+import { equivalentAperture, parseAperture } from './optics';
+import { formatCropModes, LENS_ROLE_NAMES, LENS_ROLES, parseReleaseDate, releaseYearOf, slugifyPhoneName } from './schema';
+import { getSensor, lensSensorCropFactor, resolveSensor } from './sensors';
+import type { ChartData, ChartDataset, DerivedLensField, LensCropMode, LensDetail, LensInfo, LensRole, LensZoomRange, PhoneBrandData, PhoneData, PhoneVariant } from './schema';
+
+/**
+ * 各品牌工作表（小米机型、VIVO机型 …）的列映射与解析，
+ * 由数据转换脚本 scripts/convert-data.ts 与 ExcelDataLoader 共用
+ */
+
+/** 前端 X 轴的标准焦段 */
+export const CHART_LABELS = ['12mm', '16mm', '24mm', '28mm', '35mm', '50mm', '75mm', '85mm', '105mm', '120mm', '135mm', '200mm'];
+
+/**
+ * 机型基本信息列。ID 列是机型 ID 的唯一来源：留空时由名称生成，转换脚本会把生成的 ID 写回该列（见 fillPhoneIds），
+ * 之后修改名称不会改变 ID，链接与收藏保持有效
+ */
+export const PHONE_COLUMNS = {
+  id: 'ID',
+  /** 仅 CSV 使用：一份文件包含多个品牌时，每行的品牌 */
+  brand: '品牌',
+  name: '名称',
+  releaseDate: '发布日期',
+  level: '级别',
+  /** 以下名称列都是可选的，多个名称以 / 、顿号或分号分隔 */
+  nameZh: '中文名称',
+  nameEn: '英文名称',
+  aliases: '别名',
+  codenames: '代号',
+  /** 每项写成 "地区：名称"，如 "国际版：Xiaomi 14 Ultra" */
+  variants: '地区版本'
+};
+
+/**
+ * 每颗镜头占一组列，列名为 "前缀 + 字段"，例如 "主摄等效焦距（mm）"。
+ * 前缀默认是用途名称（超广角、主摄、长焦、超长焦、微距）；同一用途的多颗镜头或特殊镜头
+ * 用自定义前缀（如 "长焦2"、"微距长焦"），用途由 "前缀类型" 列或前缀本身推断
+ */
+export const LENS_COLUMN_PREFIXES: Record<LensRole, string> = LENS_ROLE_NAMES;
+
+/** 编辑维护的表格中固定存在的四组镜头列 */
+const STANDARD_LENS_ROLES: LensRole[] = ['ultraWide', 'main', 'telephoto', 'superTelephoto'];
+
+export interface LensColumns {
+  /** 可选：镜头用途，前缀无法推断用途时填写（如 "长焦"、"telephoto"） */
+  role: string;
+  sensor: string;
+  sensorSize: string;
+  equivalentFocalLength: string;
+  /** 表格中由物理焦距 × 转换系数计算的参考列，解析时不读取 */
+  calculatedFocalLength: string;
+  aperture: string;
+  conversionFactor: string;
+  physicalFocalLength: string;
+  equivalentAperture: string;
+  /** 可选：连续光学变焦镜头的长焦端，上面几列为广角端 */
+  maxFocalLength: string;
+  maxAperture: string;
+  maxEquivalentAperture: string;
+  /** 可选：传感器内裁切模式，如 "48mm 12MP / 96mm" */
+  cropModes: string;
+}
+
+/**
+ * 某组镜头列的列名
+ */
+export function lensColumns(prefix: string): LensColumns {
+  return {
+    role: `${prefix}类型`,
+    sensor: `${prefix}传感器型号`,
+    sensorSize: `${prefix}传感器尺寸（英寸）`,
+    equivalentFocalLength: `${prefix}等效焦距（mm）`,
+    calculatedFocalLength: `${prefix}等效焦距（计算）`,
+    aperture: `${prefix}光圈（F）`,
+    conversionFactor: `${prefix}转换系数`,
+    physicalFocalLength: `${prefix}物理焦距（mm）`,
+    equivalentAperture: `${prefix}等效光圈（F）`,
+    maxFocalLength: `${prefix}长焦端等效焦距（mm）`,
+    maxAperture: `${prefix}长焦端光圈（F）`,
+    maxEquivalentAperture: `${prefix}长焦端等效光圈（F）`,
+    cropModes: `${prefix}传感器内裁切`
+  };
+}
+
+/** 用于识别镜头列的字段后缀，长的在前（"等效光圈（F）" 需先于 "光圈（F）" 匹配） */
+const LENS_COLUMN_SUFFIXES = Object.values(lensColumns(''))
+  .filter(suffix => suffix !== lensColumns('').role && suffix !== lensColumns('').calculatedFocalLength)
+  .sort((a, b) => b.length - a.length);
+
+/**
+ * 从列名中找出所有镜头前缀，按列的先后顺序
+ */
+export function findLensPrefixes(headers: string[]): string[] {
+  const prefixes: string[] = [];
+  headers.forEach(header => {
+    const suffix = LENS_COLUMN_SUFFIXES.find(candidate => header.endsWith(candidate) && header.length > candidate.length);
+    if (!suffix) return;
+    const prefix = header.slice(0, -suffix.length);
+    if (!prefixes.includes(prefix)) prefixes.push(prefix);
+  });
+  return prefixes;
+}
+
+/**
+ * 把 "长焦" / "telephoto" 这样的写法解析为用途
+ */
+export function resolveLensRole(value: string): LensRole | null {
+  const normalized = value.trim();
+  if (LENS_ROLES.includes(normalized as LensRole)) return normalized as LensRole;
+  return LENS_ROLES.find(role => LENS_ROLE_NAMES[role] === normalized) || null;
+}
+
+/**
+ * 由列名前缀推断用途：用途名称本身、带编号（"长焦2"），或以用途名称结尾（"微距长焦"）
+ */
+export function inferLensRole(prefix: string): LensRole | null {
+  const exact = resolveLensRole(prefix) || resolveLensRole(prefix.replace(/\s*\d+$/, ''));
+  if (exact) return exact;
+  // 取最长的匹配，避免 "超长焦" 被识别为 "长焦"
+  const candidates = LENS_ROLES
+    .filter(role => prefix.endsWith(LENS_ROLE_NAMES[role]) || prefix.startsWith(LENS_ROLE_NAMES[role]))
+    .sort((a, b) => LENS_ROLE_NAMES[b].length - LENS_ROLE_NAMES[a].length);
+  return candidates[0] || null;
+}
+
+export type WorkbookRow = Record<string, string | number | Date | undefined>;
+
+function cellText(value: WorkbookRow[string]): string {
+  if (value === undefined || value === null) return '';
+  return String(value);
+}
+
+function parseOptionalNumber(value: WorkbookRow[string]): number | null {
+  const parsed = parseFloat(cellText(value));
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * 解析“传感器内裁切”列：以 / 、逗号或分号分隔，每项为焦距和可选的输出分辨率，如 "48mm 12MP / 96mm"
+ */
+export function parseCropModes(value: WorkbookRow[string]): LensCropMode[] {
+  const text = cellText(value).trim();
+  if (!text) return [];
+  return text
+    .split(/[/,，;；]/)
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => {
+      const match = part.match(/^(\d+(?:\.\d+)?)\s*mm(?:\s*@?\s*(\d+(?:\.\d+)?)\s*MP)?$/i);
+      if (!match) throw new Error(`无法识别的传感器内裁切 "${part}"，应写成 "48mm 12MP" 或 "48mm"`);
+      return { focalLength: parseFloat(match[1]), resolution: match[2] ? parseFloat(match[2]) : null };
+    })
+    .sort((a, b) => a.focalLength - b.focalLength);
+}
+
+function splitNames(value: WorkbookRow[string]): string[] {
+  return cellText(value)
+    .split(/[/、;；\n]/)
+    .map(part => part.trim())
+    .filter(Boolean);
+}
+
+/**
+ * 解析“地区版本”列，如 "国际版：Xiaomi 14 Ultra / 印度版：Xiaomi 14 Ultra 5G"
+ */
+export function parseVariants(value: WorkbookRow[string]): PhoneVariant[] {
+  return splitNames(value).map(part => {
+    const match = part.match(/^([^:：]+)[:：]\s*(.+)$/);
+    if (!match) throw new Error(`无法识别的地区版本 "${part}"，应写成 "国际版：Xiaomi 14 Ultra"`);
+    return { region: match[1].trim(), name: match[2].trim() };
+  });
+}
+
+/**
+ * 机型的可选名称字段，没有填写的字段省略
+ */
+function parsePhoneNames(row: WorkbookRow): Pick<PhoneData, 'names' | 'aliases' | 'codenames' | 'variants'> {
+  const zh = cellText(row[PHONE_COLUMNS.nameZh]).trim();
+  const en = cellText(row[PHONE_COLUMNS.nameEn]).trim();
+  const aliases = splitNames(row[PHONE_COLUMNS.aliases]);
+  const codenames = splitNames(row[PHONE_COLUMNS.codenames]);
+
+  let variants: PhoneVariant[];
+  try {
+    variants = parseVariants(row[PHONE_COLUMNS.variants]);
+  } catch (error) {
+    throw new Error(`${cellText(row[PHONE_COLUMNS.name])}：${PHONE_COLUMNS.variants} ${error instanceof Error ? error.message : error}`);
+  }
+
+  return {
+    ...(zh || en ? { names: { ...(zh ? { zh } : {}), ...(en ? { en } : {}) } } : {}),
+    ...(aliases.length ? { aliases } : {}),
+    ...(codenames.length ? { codenames } : {}),
+    ...(variants.length ? { variants } : {})
+  };
+}
+
+/**
+ * 发布日期的显示文本：文本单元格保留原文，日期单元格（Date 或序列号）显示为 ISO 日期
+ */
+function releaseDateText(value: WorkbookRow[string]): string {
+  if (typeof value === 'string' || value === undefined) return cellText(value);
+  return parseReleaseDate(value) ?? cellText(value);
+}
+
+/**
+ * 解析发布年份（日期的解析见 parseReleaseDate）
+ */
+export function extractYear(value: WorkbookRow[string]): number | null {
+  return releaseYearOf(parseReleaseDate(value));
+}
+
+/** 未指定镜头列时使用编辑维护的表格中的四组列 */
+const STANDARD_LENS_PREFIXES = STANDARD_LENS_ROLES.map(role => LENS_COLUMN_PREFIXES[role]);
+
+/**
+ * 从一行数据中收集镜头，prefixes 为该工作表中的各组镜头列（见 findLensPrefixes）。
+ * 等效焦距或等效光圈未填写时，若已知转换系数（或传感器尺寸、已登记的传感器型号）、物理焦距与物理光圈，
+ * 则自动推算并记录在 derived 中；仍无法得到等效焦距与等效光圈的镜头不会出现在曲线上
+ */
+export function parseLenses(
+  row: WorkbookRow,
+  prefixes: string[] = STANDARD_LENS_PREFIXES
+): { originalLenses: LensInfo[]; lensDetails: { [focalLength: string]: LensDetail } } {
+  const originalLenses: LensInfo[] = [];
+  const lensDetails: { [focalLength: string]: LensDetail } = {};
+
+  prefixes.forEach(prefix => {
+    const columns = lensColumns(prefix);
+    const sensor = cellText(row[columns.sensor]);
+    // 已登记的传感器可以不填尺寸，使用登记表中的光学格式
+    const sensorId = sensor ? resolveSensor(sensor) : null;
+    const sensorSize = cellText(row[columns.sensorSize]) || getSensor(sensorId)?.opticalFormat || '';
+    const physicalFocalLength = parseOptionalNumber(row[columns.physicalFocalLength]);
+    const physicalAperture = parseAperture(row[columns.aperture]);
+    const derived: DerivedLensField[] = [];
+
+    let conversionFactor = parseOptionalNumber(row[columns.conversionFactor]);
+    if (conversionFactor === null) {
+      const factor = lensSensorCropFactor({ sensorId: sensorId ?? undefined, sensorSize });
+      if (factor !== null) {
+        conversionFactor = factor;
+        derived.push('conversionFactor');
+      }
+    }
+
+    let focalLength = parseOptionalNumber(row[columns.equivalentFocalLength]);
+    if (!focalLength && physicalFocalLength && conversionFactor) {
+      focalLength = Math.round(physicalFocalLength * conversionFactor);
+      derived.push('equivalentFocalLength');
+    }
+
+    let aperture = parseAperture(row[columns.equivalentAperture]);
+    let equivalentApertureText = cellText(row[columns.equivalentAperture]);
+    if (!aperture && physicalAperture && conversionFactor) {
+      aperture = Number(equivalentAperture(physicalAperture, conversionFactor).toFixed(1));
+      equivalentApertureText = `f/${aperture.toFixed(1)}`;
+      derived.push('equivalentAperture');
+    }
+
+    if (!focalLength || !aperture) return;
+
+    const name = cellText(row[PHONE_COLUMNS.name]);
+    let zoom: LensZoomRange | undefined;
+    const maxFocalLength = parseOptionalNumber(row[columns.maxFocalLength]);
+    if (maxFocalLength) {
+      if (maxFocalLength <= focalLength) {
+        throw new Error(`${name}：${columns.maxFocalLength} ${maxFocalLength}mm 应大于 ${columns.equivalentFocalLength} ${focalLength}mm`);
+      }
+      const maxPhysicalAperture = parseAperture(row[columns.maxAperture]);
+      let maxAperture = parseAperture(row[columns.maxEquivalentAperture]);
+      if (!maxAperture && maxPhysicalAperture && conversionFactor) {
+        maxAperture = Number(equivalentAperture(maxPhysicalAperture, conversionFactor).toFixed(1));
+        derived.push('maxAperture');
+      }
+      if (!maxAperture) {
+        throw new Error(`${name}：填写了 ${columns.maxFocalLength}，但缺少 ${columns.maxEquivalentAperture}（或 ${columns.maxAperture} 与转换系数）`);
+      }
+      zoom = { maxFocalLength, maxAperture, maxPhysicalApertureValue: maxPhysicalAperture };
+    }
+
+    let cropModes: LensCropMode[];
+    try {
+      cropModes = parseCropModes(row[columns.cropModes]);
+    } catch (error) {
+      throw new Error(`${name}：${columns.cropModes} ${error instanceof Error ? error.message : error}`);
+    }
+
+    const roleCell = cellText(row[columns.role]);
+    const role = roleCell ? resolveLensRole(roleCell) : inferLensRole(prefix);
+    if (!role) {
+      throw new Error(roleCell
+        ? `${name}：无法识别的镜头类型 "${roleCell}"（${columns.role}）`
+        : `无法判断镜头 "${prefix}" 的用途，请添加 "${columns.role}" 列（超广角 / 主摄 / 长焦 / 超长焦 / 微距）`);
+    }
+
+    originalLenses.push({
+      focalLength,
+      aperture,
+      role,
+      ...(prefix !== LENS_COLUMN_PREFIXES[role] ? { label: prefix } : {}),
+      physicalApertureValue: physicalAperture,
+      conversionFactor,
+      ...(zoom ? { zoom } : {}),
+      ...(cropModes.length > 0 ? { cropModes } : {}),
+      ...(derived.length > 0 ? { derived } : {})
+    });
+    lensDetails[String(focalLength)] = {
+      sensor,
+      ...(sensorId ? { sensorId } : {}),
+      sensorSize,
+      physicalFocalLength,
+      equivalentFocalLength: focalLength,
+      aperture: cellText(row[columns.aperture]),
+      equivalentAperture: equivalentApertureText
+    };
+  });
+
+  return {
+    originalLenses: originalLenses.sort((a, b) => a.focalLength - b.focalLength),
+    lensDetails
+  };
+}
+
+function backgroundColor(hex: string): string {
+  const r = parseInt(hex.slice(1, 3), 16);
+  const g = parseInt(hex.slice(3, 5), 16);
+  const b = parseInt(hex.slice(5, 7), 16);
+  return `rgba(${r}, ${g}, ${b}, 0.1)`;
+}
+
+/**
+ * 解析一个品牌工作表的所有行
+ */
+export function parseBrandRows(brand: string, rows: WorkbookRow[]): { phones: PhoneData[]; datasets: ChartDataset[] } {
+  const colors = brandPalette(brand);
+  // 没有名称的行（空行、备注行）不是机型，机型与曲线都跳过
+  const namedRows = rows.filter(row => cellText(row[PHONE_COLUMNS.name]));
+
+  const phoneIdentity = (row: WorkbookRow) => {
+    const name = cellText(row[PHONE_COLUMNS.name]);
+    const slug = slugifyPhoneName(brand, name);
+    return { id: cellText(row[PHONE_COLUMNS.id]).trim() || slug, slug };
+  };
+
+  const phones: PhoneData[] = namedRows.map(row => ({
+    ...phoneIdentity(row),
+    name: cellText(row[PHONE_COLUMNS.name]),
+    releaseDate: releaseDateText(row[PHONE_COLUMNS.releaseDate]),
+    releaseDateIso: parseReleaseDate(row[PHONE_COLUMNS.releaseDate]),
+    level: cellText(row[PHONE_COLUMNS.level]),
+    releaseYear: extractYear(row[PHONE_COLUMNS.releaseDate]),
+    ...parsePhoneNames(row)
+  }));
+
+  // 各行的列可能不全（空单元格不会出现在 row 中），合并所有行的列名
+  const prefixes = findLensPrefixes(Array.from(new Set(namedRows.flatMap(row => Object.keys(row)))));
+
+  const datasets: ChartDataset[] = namedRows.map((row, index) => {
+    const color = colors[index % colors.length];
+    const { originalLenses, lensDetails } = parseLenses(row, prefixes);
+    return {
+      ...phoneIdentity(row),
+      label: cellText(row[PHONE_COLUMNS.name]),
+      data: [],
+      borderColor: color,
+      backgroundColor: backgroundColor(color),
+      tension: 0.4,
+      brand,
+      releaseYear: extractYear(row[PHONE_COLUMNS.releaseDate]),
+      lensDetails,
+      originalLenses
+    };
+  });
+
+  return { phones, datasets };
+}
+
+/**
+ * 解析整个工作簿，未在品牌登记表（data/brands.json）中的工作表会被忽略
+ */
+export function parseWorkbook(workbook: XLSX.WorkBook): { phones: PhoneBrandData; chart: ChartData } {
+  const phones: PhoneBrandData = {};
+  const datasets: ChartDataset[] = [];
+
+  workbook.SheetNames.forEach(sheetName => {
+    const brand = brandForSheet(sheetName);
+    if (!brand) return;
+
+    const rows = XLSX.utils.sheet_to_json<WorkbookRow>(workbook.Sheets[sheetName]);
+    const parsed = parseBrandRows(brand, rows);
+    phones[brand] = parsed.phones;
+    datasets.push(...parsed.datasets);
+  });
+
+  return { phones, chart: { labels: CHART_LABELS, datasets } };
+}
+
+/** 可选的名称列，导出时只写有内容的列 */
+const NAME_COLUMNS = [PHONE_COLUMNS.nameZh, PHONE_COLUMNS.nameEn, PHONE_COLUMNS.aliases, PHONE_COLUMNS.codenames, PHONE_COLUMNS.variants];
+
+/** 工作表内容从 B2 开始，与编辑维护的表格一致 */
+const SHEET_ORIGIN = 'B2';
+
+/** 镜头在工作表中的列名前缀 */
+function lensPrefix(lens: LensInfo): string {
+  return lens.label || LENS_COLUMN_PREFIXES[lens.role];
+}
+
+/**
+ * 把一台机型还原成表格中的一行；由物理规格推算的字段留空，重新转换时会再次推算
+ */
+function buildRow(phone: PhoneData, dataset: ChartDataset | undefined, prefixes: string[]): WorkbookRow {
+  const row: WorkbookRow = {
+    [PHONE_COLUMNS.name]: phone.name,
+    [PHONE_COLUMNS.releaseDate]: phone.releaseDate,
+    [PHONE_COLUMNS.level]: phone.level,
+    [PHONE_COLUMNS.nameZh]: phone.names?.zh,
+    [PHONE_COLUMNS.nameEn]: phone.names?.en,
+    [PHONE_COLUMNS.aliases]: phone.aliases?.join(' / '),
+    [PHONE_COLUMNS.codenames]: phone.codenames?.join(' / '),
+    [PHONE_COLUMNS.variants]: phone.variants?.map(variant => `${variant.region}：${variant.name}`).join(' / ')
+  };
+
+  prefixes.forEach(prefix => {
+    const columns = lensColumns(prefix);
+    const lens = dataset?.originalLenses.find(originalLens => lensPrefix(originalLens) === prefix);
+    const detail = lens ? dataset?.lensDetails[String(lens.focalLength)] : undefined;
+    const derived = lens?.derived || [];
+    const keep = <T>(field: DerivedLensField, value: T) => (derived.includes(field) ? undefined : value);
+
+    if (lens && inferLensRole(prefix) !== lens.role) row[columns.role] = LENS_ROLE_NAMES[lens.role];
+    row[columns.sensor] = detail?.sensor || undefined;
+    // 与登记表相同的尺寸不写回，传感器规格只在 data/sensors.json 中维护
+    row[columns.sensorSize] = detail?.sensorSize && detail.sensorSize !== getSensor(detail.sensorId)?.opticalFormat ? detail.sensorSize : undefined;
+    row[columns.equivalentFocalLength] = lens ? keep('equivalentFocalLength', lens.focalLength) : undefined;
+    row[columns.calculatedFocalLength] = detail?.physicalFocalLength && lens?.conversionFactor
+      ? detail.physicalFocalLength * lens.conversionFactor
+      : undefined;
+    row[columns.aperture] = detail?.aperture || undefined;
+    row[columns.conversionFactor] = lens?.conversionFactor !== null && lens?.conversionFactor !== undefined
+      ? keep('conversionFactor', lens.conversionFactor)
+      : undefined;
+    row[columns.physicalFocalLength] = detail?.physicalFocalLength ?? undefined;
+    row[columns.equivalentAperture] = detail?.equivalentAperture ? keep('equivalentAperture', detail.equivalentAperture) : undefined;
+    if (lens?.zoom) {
+      row[columns.maxFocalLength] = lens.zoom.maxFocalLength;
+      row[columns.maxAperture] = lens.zoom.maxPhysicalApertureValue !== null ? `f/${lens.zoom.maxPhysicalApertureValue}` : undefined;
+      row[columns.maxEquivalentAperture] = keep('maxAperture', `f/${lens.zoom.maxAperture}`);
+    }
+    if (lens?.cropModes?.length) row[columns.cropModes] = formatCropModes(lens.cropModes);
+  });
+
+  // 只有手工指定过 ID 的机型才需要写回 ID 列
+  if (phone.id !== phone.slug) row[PHONE_COLUMNS.id] = phone.id;
+
+  return row;
+}
+
+/**
+ * parseWorkbook 的逆过程：按品牌工作表与列名生成工作簿，供编辑继续在 Excel 中维护。
+ * 每个工作表都包含四组标准镜头列，其他镜头（第二颗长焦、微距等）按焦距顺序追加在后面
+ */
+export function buildWorkbook(phones: PhoneBrandData, chart: ChartData): XLSX.WorkBook {
+  const workbook = XLSX.utils.book_new();
+  const datasets = new Map(chart.datasets.map(dataset => [dataset.id, dataset]));
+
+  Object.entries(phones).forEach(([brand, brandPhones]) => {
+    const brandDatasets = brandPhones.map(phone => datasets.get(phone.id));
+    const prefixes = [...STANDARD_LENS_PREFIXES];
+    brandDatasets.forEach(dataset => dataset?.originalLenses.forEach(lens => {
+      if (!prefixes.includes(lensPrefix(lens))) prefixes.push(lensPrefix(lens));
+    }));
+
+    const rows = brandPhones.map((phone, index) => buildRow(phone, brandDatasets[index], prefixes));
+    const header = [
+      PHONE_COLUMNS.name,
+      PHONE_COLUMNS.releaseDate,
+      PHONE_COLUMNS.level,
+      ...NAME_COLUMNS.filter(column => rows.some(row => row[column] !== undefined)),
+      ...prefixes.flatMap(prefix => {
+        const columns = lensColumns(prefix);
+        return [
+          ...(rows.some(row => columns.role in row) ? [columns.role] : []),
+          columns.sensor,
+          columns.sensorSize,
+          columns.equivalentFocalLength,
+          columns.calculatedFocalLength,
+          columns.aperture,
+          columns.conversionFactor,
+          columns.physicalFocalLength,
+          columns.equivalentAperture,
+          ...(rows.some(row => columns.maxFocalLength in row)
+            ? [columns.maxFocalLength, columns.maxAperture, columns.maxEquivalentAperture]
+            : []),
+          ...(rows.some(row => columns.cropModes in row) ? [columns.cropModes] : [])
+        ];
+      }),
+      ...(rows.some(row => PHONE_COLUMNS.id in row) ? [PHONE_COLUMNS.id] : [])
+    ];
+
+    const sheet = XLSX.utils.sheet_add_json<WorkbookRow>({}, rows, { header, origin: SHEET_ORIGIN });
+    // sheet_add_json 的范围总是从 A1 开始，改回从表头所在的 B2 开始，否则读取时会把空的第一行当作表头
+    sheet['!ref'] = XLSX.utils.encode_range({
+      s: XLSX.utils.decode_cell(SHEET_ORIGIN),
+      e: XLSX.utils.decode_range(sheet['!ref'] || SHEET_ORIGIN).e
+    });
+    sheet['!cols'] = [{ wch: 4 }, ...header.map(() => ({ wch: 14 }))];
+    XLSX.utils.book_append_sheet(workbook, sheet, sheetNameForBrand(brand));
+  });
+
+  return workbook;
+}
+
+/**
+ * 在各品牌工作表 ID 列的空白单元格填入 ID（没有 ID 列时在最后新增一列），返回填写的行数。
+ * idFor 没有给出 ID 的机型由名称生成
+ */
+export function fillPhoneIds(workbook: XLSX.WorkBook, idFor: (brand: string, name: string) => string | undefined = () => undefined): number {
+  let filled = 0;
+
+  workbook.SheetNames.forEach(sheetName => {
+    const brand = brandForSheet(sheetName);
+    const sheet = workbook.Sheets[sheetName];
+    if (!brand || !sheet['!ref']) return;
+
+    // 表头在范围的第一行，与 sheet_to_json 一致
+    const range = XLSX.utils.decode_range(sheet['!ref']);
+    const cellAt = (row: number, column: number) => sheet[XLSX.utils.encode_cell({ r: row, c: column })] as XLSX.CellObject | undefined;
+    const findColumn = (header: string) => {
+      for (let column = range.s.c; column <= range.e.c; column++) {
+        if (cellText(cellAt(range.s.r, column)?.v as WorkbookRow[string]).trim() === header) return column;
+      }
+      return null;
+    };
+
+    const nameColumn = findColumn(PHONE_COLUMNS.name);
+    if (nameColumn === null) return;
+    let idColumn = findColumn(PHONE_COLUMNS.id);
+    if (idColumn === null) {
+      idColumn = range.e.c + 1;
+      sheet[XLSX.utils.encode_cell({ r: range.s.r, c: idColumn })] = { t: 's', v: PHONE_COLUMNS.id };
+      range.e.c = idColumn;
+      sheet['!ref'] = XLSX.utils.encode_range(range);
+    }
+
+    for (let row = range.s.r + 1; row <= range.e.r; row++) {
+      const name = cellText(cellAt(row, nameColumn)?.v as WorkbookRow[string]);
+      if (!name || cellText(cellAt(row, idColumn)?.v as WorkbookRow[string]).trim()) continue;
+      sheet[XLSX.utils.encode_cell({ r: row, c: idColumn })] = { t: 's', v: idFor(brand, name) ?? slugifyPhoneName(brand, name) };
+      filled++;
+    }
+  });
+
+  return filled;
+}
+
+/**
+ * 解析 CSV，列名与品牌工作表相同。
+ * 整份文件属于 brand；未指定 brand 时每行通过“品牌”列（或 brand 列）确定品牌
+ */
+export function parseCsv(text: string, brand?: string): { phones: PhoneBrandData; chart: ChartData } {
+  // raw：保留原始文本，避免 "1/2.51" 这样的传感器尺寸被识别成日期
+  const workbook = XLSX.read(text.replace(/^\uFEFF/, ''), { type: 'string', raw: true });
+  const rows = XLSX.utils.sheet_to_json<WorkbookRow>(workbook.Sheets[workbook.SheetNames[0]], { raw: true });
+
+  const rowsByBrand = new Map<string, WorkbookRow[]>();
+  rows.forEach((row, index) => {
+    const brandCell = cellText(row[PHONE_COLUMNS.brand] ?? row.brand);
+    const rowBrand = brandCell ? resolveBrand(brandCell) : brand;
+    if (!rowBrand) {
+      // 表头是第 1 行
+      throw new Error(brandCell ? `第 ${index + 2} 行：无法识别的品牌 "${brandCell}"` : `第 ${index + 2} 行缺少品牌，请添加“品牌”列或按品牌分别导入`);
+    }
+    rowsByBrand.set(rowBrand, [...(rowsByBrand.get(rowBrand) || []), row]);
+  });
+
+  const phones: PhoneBrandData = {};
+  const datasets: ChartDataset[] = [];
+  rowsByBrand.forEach((brandRows, rowBrand) => {
+    const parsed = parseBrandRows(rowBrand, brandRows);
+    phones[rowBrand] = parsed.phones;
+    datasets.push(...parsed.datasets);
+  });
+
+  return { phones, chart: { labels: CHART_LABELS, datasets } };
+}
+
+/**
+ * 工作簿中是否包含品牌工作表
+ */
+export function hasBrandSheets(workbook: XLSX.WorkBook): boolean {
+  return workbook.SheetNames.some(sheetName => brandForSheet(sheetName) !== null);
+}
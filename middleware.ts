@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { isLocale, LOCALE_COOKIE, localePath, matchLocale } from './lib/i18n/config';
+
+/**
+ * 不带语言的路径（如 /comparison）重定向到 /zh/comparison 或 /en/comparison：
+ * 优先使用语言切换时保存的 cookie，其次是浏览器语言
+ */
+export function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  if (isLocale(pathname.split('/')[1])) return NextResponse.next();
+
+  const saved = request.cookies.get(LOCALE_COOKIE)?.value;
+  const locale = isLocale(saved) ? saved : matchLocale(request.headers.get('accept-language'));
+  return NextResponse.redirect(new URL(`${localePath(locale, pathname)}${search}`, request.url));
+}
+
+export const config = {
+  // 跳过 Next.js 内部路径与 public 下的静态文件（数据 JSON、图标等）
+  matcher: ['/((?!_next|.*\\..*).*)']
+};
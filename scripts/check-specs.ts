@@ -0,0 +1,50 @@
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import * as XLSX from 'xlsx';
+import { parseWorkbook } from '../lib/workbook';
+import { checkSpecConsistency, DEFAULT_CONSISTENCY_TOLERANCE, formatConsistencyReport, KNOWN_SPEC_DEVIATIONS } from '../lib/schema';
+
+/**
+ * 镜头规格一致性检查，发布前运行；已核实的偏差登记在 data/spec-deviations.json
+ *
+ * 用法：
+ *   npm run check-specs
+ *   npm run check-specs -- --input ./data/各机型后置摄像头数据.xlsx --tolerance 0.03
+ */
+
+const DEFAULT_INPUT = path.join('data', '各机型后置摄像头数据.xlsx');
+
+function main() {
+  const { values } = parseArgs({
+    options: {
+      input: { type: 'string', short: 'i', default: DEFAULT_INPUT },
+      tolerance: { type: 'string', short: 't', default: String(DEFAULT_CONSISTENCY_TOLERANCE) }
+    }
+  });
+
+  const input = values.input as string;
+  const tolerance = parseFloat(values.tolerance as string);
+  if (!fs.existsSync(input)) {
+    console.error(`❌ 文件不存在: ${input}`);
+    process.exit(1);
+  }
+  if (Number.isNaN(tolerance) || tolerance < 0) {
+    console.error(`❌ 无效的容差: ${values.tolerance}`);
+    process.exit(1);
+  }
+
+  const { chart } = parseWorkbook(XLSX.read(fs.readFileSync(input), { type: 'buffer' }));
+  const issues = checkSpecConsistency(chart, tolerance);
+
+  if (issues.length === 0) {
+    console.log(`✅ ${chart.datasets.length} 台设备的镜头规格一致（容差 ${tolerance * 100}%，已知偏差 ${KNOWN_SPEC_DEVIATIONS.length} 处）`);
+    return;
+  }
+
+  formatConsistencyReport(issues).forEach(line => console.log(line));
+  console.log(`\n❌ 发现 ${issues.length} 处不一致（容差 ${tolerance * 100}%）`);
+  process.exit(1);
+}
+
+main();
@@ -0,0 +1,211 @@
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import * as XLSX from 'xlsx';
+import { carryOverPhoneIds } from '../lib/phone-names';
+import { fillPhoneIds, parseWorkbook } from '../lib/workbook';
+import { assertDataset, CHART_FILE, checkSpecConsistency, DatasetValidationError, DEFAULT_CONSISTENCY_TOLERANCE, diffDatasets, formatConsistencyReport, formatDiffReport, PHONES_FILE } from '../lib/schema';
+import type { ChartData, PhoneBrandData, PhoneChange } from '../lib/schema';
+
+/**
+ * Excel -> JSON 数据转换
+ *
+ * 用法：
+ *   npm run convert-data
+ *   npm run convert-data -- --input ./data/各机型后置摄像头数据.xlsx --out-dir ./public/data
+ *   npm run convert-data -- --dry-run   只打印变更，不写文件
+ *   npm run convert-data -- --watch     Excel 保存后自动重新转换
+ *   npm run convert-data -- --strict    镜头规格不一致时不写文件（容差用 --tolerance 调整）
+ */
+
+const DEFAULT_INPUT = path.join('data', '各机型后置摄像头数据.xlsx');
+const DEFAULT_OUT_DIR = path.join('public', 'data');
+
+interface ConvertOptions {
+  input: string;
+  outDir: string;
+  dryRun: boolean;
+  strict: boolean;
+  tolerance: number;
+}
+
+function readJson<T>(file: string): T | null {
+  if (!fs.existsSync(file)) return null;
+  return JSON.parse(fs.readFileSync(file, 'utf8')) as T;
+}
+
+/**
+ * 读取上一次输出用于对比；不存在或格式已过时时返回 null（所有机型视为新增）
+ */
+function readPreviousBuild(phonesFile: string, chartFile: string): { phones: PhoneBrandData; chart: ChartData } | null {
+  const phones = readJson<unknown>(phonesFile);
+  const chart = readJson<unknown>(chartFile);
+  if (phones === null || chart === null) return null;
+  try {
+    return assertDataset(phones, chart);
+  } catch (error) {
+    if (!(error instanceof DatasetValidationError)) throw error;
+    console.log('   上一次输出的格式与当前不同，跳过对比');
+    return null;
+  }
+}
+
+/**
+ * 先写临时文件再重命名，网站不会读到写了一半的 JSON
+ */
+function writeFilesAtomically(files: Array<{ file: string; content: string }>) {
+  const temporaryFiles = files.map(({ file, content }) => {
+    const temporaryFile = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(temporaryFile, content, 'utf8');
+    return { temporaryFile, file };
+  });
+  temporaryFiles.forEach(({ temporaryFile, file }) => fs.renameSync(temporaryFile, file));
+}
+
+function printSummary(changes: PhoneChange[], datasetCount: number) {
+  console.log(`📊 共 ${datasetCount} 台设备`);
+  if (changes.length === 0) {
+    console.log('   数据没有变化');
+    return;
+  }
+  formatDiffReport(changes).forEach(line => console.log(line));
+}
+
+/**
+ * 转换一次，返回是否成功
+ */
+function convert(options: ConvertOptions): boolean {
+  console.log(`📂 读取 ${options.input}`);
+
+  let workbook: XLSX.WorkBook;
+  let dataset: { phones: PhoneBrandData; chart: ChartData };
+  try {
+    workbook = XLSX.read(fs.readFileSync(options.input), { type: 'buffer' });
+    const parsed = parseWorkbook(workbook);
+    dataset = assertDataset(parsed.phones, parsed.chart);
+  } catch (error) {
+    if (error instanceof DatasetValidationError) {
+      console.error(`❌ ${error.message}`);
+    } else {
+      console.error('❌ 转换失败:', error instanceof Error ? error.message : error);
+    }
+    return false;
+  }
+
+  const inconsistencies = checkSpecConsistency(dataset.chart, options.tolerance);
+  if (inconsistencies.length > 0) {
+    formatConsistencyReport(inconsistencies).forEach(line => console.warn(line));
+    console.warn(`⚠️  ${inconsistencies.length} 处镜头规格不一致（容差 ${options.tolerance * 100}%）`);
+    if (options.strict) {
+      console.error('❌ --strict：存在不一致的规格，未写入文件');
+      return false;
+    }
+  }
+
+  const derivedLenses = dataset.chart.datasets.flatMap(chartDataset =>
+    chartDataset.originalLenses.filter(lens => lens.derived).map(lens => `${chartDataset.label} ${lens.focalLength}mm（${lens.derived?.join('、')}）`)
+  );
+  if (derivedLenses.length > 0) {
+    console.log(`🧮 ${derivedLenses.length} 颗镜头的等效规格由物理规格推算：`);
+    derivedLenses.forEach(lens => console.log(`   ${lens}`));
+  }
+
+  const phonesFile = path.join(options.outDir, PHONES_FILE);
+  const chartFile = path.join(options.outDir, CHART_FILE);
+  const previous = readPreviousBuild(phonesFile, chartFile);
+  if (previous) {
+    // 从其他来源导入、名称写法不同的机型，按官方名称与别名对应到原来的机型
+    const carried = carryOverPhoneIds(previous.phones, dataset);
+    carried.forEach(({ name, id }) => console.log(`🔗 ${name} 与上次的 ${id} 名称对应，沿用原 ID`));
+  }
+  const changes = diffDatasets(previous, dataset);
+  printSummary(changes, dataset.chart.datasets.length);
+
+  if (options.dryRun) {
+    console.log('🔎 dry-run：未写入文件');
+    return true;
+  }
+
+  // 把生成的 ID 写回 Excel，之后修改机型名称不会改变 ID
+  // 沿用原 ID 的机型写回的是原 ID
+  const idsByName = new Map(Object.entries(dataset.phones).flatMap(([brand, phones]) => phones.map(phone => [`${brand}/${phone.name}`, phone.id] as const)));
+  const filledIds = fillPhoneIds(workbook, (brand, name) => idsByName.get(`${brand}/${name}`));
+  if (filledIds > 0) {
+    try {
+      XLSX.writeFile(workbook, options.input, { compression: true });
+      console.log(`🆔 已在 ${options.input} 的 ID 列填入 ${filledIds} 个 ID`);
+    } catch (error) {
+      console.warn(`⚠️  无法写回 ID 列（Excel 是否正在打开该文件？）: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  fs.mkdirSync(options.outDir, { recursive: true });
+  writeFilesAtomically([
+    { file: phonesFile, content: JSON.stringify(dataset.phones, null, 2) },
+    { file: chartFile, content: JSON.stringify(dataset.chart, null, 2) }
+  ]);
+  console.log(`💾 已写入 ${phonesFile}、${chartFile}`);
+  if (changes.length > 0) {
+    console.log('📝 确认无误后运行 npm run changelog -- --write 记录本次更新');
+  }
+  return true;
+}
+
+/**
+ * 监听 Excel 文件所在目录（Excel 保存时会替换文件，直接监听文件会丢失事件）
+ */
+function watch(options: ConvertOptions) {
+  const directory = path.dirname(path.resolve(options.input));
+  const fileName = path.basename(options.input);
+  let timer: NodeJS.Timeout | null = null;
+
+  console.log(`👀 监听 ${options.input} 的变化，按 Ctrl+C 退出`);
+  fs.watch(directory, (_event, changedFile) => {
+    if (changedFile !== fileName) return;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      console.log(`\n🔄 ${new Date().toLocaleTimeString()} 检测到变化`);
+      if (fs.existsSync(options.input)) convert(options);
+    }, 300);
+  });
+}
+
+function main() {
+  const { values } = parseArgs({
+    options: {
+      input: { type: 'string', short: 'i', default: DEFAULT_INPUT },
+      'out-dir': { type: 'string', short: 'o', default: DEFAULT_OUT_DIR },
+      'dry-run': { type: 'boolean', default: false },
+      watch: { type: 'boolean', short: 'w', default: false },
+      strict: { type: 'boolean', default: false },
+      tolerance: { type: 'string', default: String(DEFAULT_CONSISTENCY_TOLERANCE) }
+    }
+  });
+
+  const options: ConvertOptions = {
+    input: values.input as string,
+    outDir: values['out-dir'] as string,
+    dryRun: Boolean(values['dry-run']),
+    strict: Boolean(values.strict),
+    tolerance: parseFloat(values.tolerance as string)
+  };
+
+  if (Number.isNaN(options.tolerance) || options.tolerance < 0) {
+    console.error(`❌ 无效的容差: ${values.tolerance}`);
+    process.exit(1);
+  }
+
+  if (!fs.existsSync(options.input)) {
+    console.error(`❌ 文件不存在: ${options.input}`);
+    process.exit(1);
+  }
+
+  const succeeded = convert(options);
+  if (values.watch) {
+    watch(options);
+  } else if (!succeeded) {
+    process.exit(1);
+  }
+}
+
+main();
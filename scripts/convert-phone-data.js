@@ -4,32 +4,16 @@ const path = require('path');
 
 /**
  * 专门转换手机摄像头数据的脚本
- * Excel文件包含8个工作表：小米机型、VIVO机型、OPPO机型、苹果机型、三星机型、华为机型、荣耀机型、努比亚机型
+ * Excel文件每个品牌一个工作表，工作表名称见 data/brands.json
  */
 
+const BRANDS = require('../data/brands.json');
+
 // 工作表到品牌名称的映射
-const BRAND_MAPPING = {
-  '小米机型': 'xiaomi',
-  'VIVO机型': 'vivo', 
-  'OPPO机型': 'oppo',
-  '苹果机型': 'apple',
-  '三星机型': 'samsung',
-  '华为机型': 'huawei',
-  '荣耀机型': 'honor',
-  '努比亚机型': 'nubia'
-};
+const BRAND_MAPPING = Object.fromEntries(BRANDS.map(brand => [brand.sheet, brand.key]));
 
 // 品牌颜色配置
-const BRAND_COLORS = {
-  xiaomi: ['#FF6B35', '#FF8A50', '#FFA726', '#FFB74D', '#FFCC80'],
-  vivo: ['#8E24AA', '#AB47BC', '#BA68C8', '#CE93D8', '#E1BEE7'],
-  oppo: ['#43A047', '#66BB6A', '#81C784', '#A5D6A7', '#C8E6C9'],
-  apple: ['#1E88E5', '#42A5F5', '#64B5F6', '#90CAF9', '#BBDEFB'],
-  samsung: ['#E53935', '#EF5350', '#F44336', '#EF5350', '#FFCDD2'],
-  huawei: ['#F57C00', '#FF9800', '#FFB74D', '#FFCC80', '#FFE0B2'],
-  honor: ['#7B1FA2', '#9C27B0', '#BA68C8', '#CE93D8', '#E1BEE7'],
-  nubia: ['#D32F2F', '#F44336', '#EF5350', '#E57373', '#FFCDD2']
-};
+const BRAND_COLORS = Object.fromEntries(BRANDS.map(brand => [brand.key, brand.palette]));
 
 function convertPhoneData(excelFilePath) {
   try {
@@ -212,42 +196,8 @@ function generateBackgroundColor(borderColor) {
 }
 
 function generateTypeDefinitions(outputDir) {
-  const typeDefinitions = `
-export interface CameraLens {
-  sensor: string;
-  sensorSize: string;
-  focalLength: string;
-  aperture: string;
-  equivalentAperture: string;
-}
-
-export interface PhoneData {
-  name: string;
-  releaseDate: string;
-  level: string;
-  ultraWide: CameraLens;
-  main: CameraLens;
-  telephoto: CameraLens;
-  superTelephoto: CameraLens;
-}
-
-export interface ChartDataset {
-  label: string;
-  data: (number | null)[];
-  borderColor: string;
-  backgroundColor: string;
-  tension: number;
-  brand: string;
-}
-
-export interface PhoneBrandData {
-  [brand: string]: PhoneData[];
-}
-
-export interface ChartData {
-  labels: string[];
-  datasets: ChartDataset[];
-}
+  const typeDefinitions = `// 数据结构统一定义在 lib/schema，此文件仅为兼容旧的引用路径
+export type { ChartData, ChartDataset, LensDetail, LensInfo, LensRole, PhoneBrandData, PhoneData } from '../lib/schema';
 `;
 
   fs.writeFileSync(
@@ -5,17 +5,9 @@ const fs = require('fs');
  * 简化版Excel数据转换脚本
  */
 
-// 品牌颜色配置
-const BRAND_COLORS = {
-  xiaomi: ['#FF6B35', '#FF8A50', '#FFA726', '#FFB74D', '#FFCC80'],
-  vivo: ['#8E24AA', '#AB47BC', '#BA68C8', '#CE93D8', '#E1BEE7'],
-  oppo: ['#43A047', '#66BB6A', '#81C784', '#A5D6A7', '#C8E6C9'],
-  apple: ['#1E88E5', '#42A5F5', '#64B5F6', '#90CAF9', '#BBDEFB'],
-  samsung: ['#E53935', '#EF5350', '#F44336', '#EF5350', '#FFCDD2'],
-  huawei: ['#F57C00', '#FF9800', '#FFB74D', '#FFCC80', '#FFE0B2'],
-  honor: ['#7B1FA2', '#9C27B0', '#BA68C8', '#CE93D8', '#E1BEE7'],
-  nubia: ['#D32F2F', '#F44336', '#EF5350', '#E57373', '#FFCDD2']
-};
+// 品牌颜色配置（来自 data/brands.json）
+const BRANDS = require('../data/brands.json');
+const BRAND_COLORS = Object.fromEntries(BRANDS.map(brand => [brand.key, brand.palette]));
 
 // 解析光圈值
 function parseAperture(apertureStr) {
@@ -120,16 +112,7 @@ function convertPhoneData() {
   const phoneData = {};
   const chartDatasets = [];
   
-  const brandMapping = {
-    '小米机型': 'xiaomi',
-    'VIVO机型': 'vivo',
-    'OPPO机型': 'oppo',
-    '苹果机型': 'apple',
-    '三星机型': 'samsung',
-    '华为机型': 'huawei',
-    '荣耀机型': 'honor',
-    '努比亚机型': 'nubia'
-  };
+  const brandMapping = Object.fromEntries(BRANDS.map(brand => [brand.sheet, brand.key]));
   
   workbook.SheetNames.forEach(sheetName => {
     const brandKey = brandMapping[sheetName];
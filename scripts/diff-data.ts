@@ -0,0 +1,115 @@
+import fs from 'fs';
+import path from 'path';
+import { execFileSync } from 'child_process';
+import { parseArgs } from 'util';
+import { assertChangelog, assertDataset, CHANGELOG_FILE, CHART_FILE, DatasetValidationError, diffDatasets, formatDiffReport, PHONES_FILE } from '../lib/schema';
+import type { Changelog, ChartData, PhoneBrandData } from '../lib/schema';
+
+/**
+ * 比较两次数据构建，生成结构化的更新记录
+ *
+ * 用法：
+ *   npm run changelog                              对比上次提交（git:HEAD）与 public/data
+ *   npm run changelog -- --from git:HEAD~3         与更早的提交对比
+ *   npm run changelog -- --from ./old --to ./new   对比两个目录
+ *   npm run changelog -- --json                    输出 JSON
+ *   npm run changelog -- --write                   追加到 public/data/changelog.json，供 /changelog 页面展示
+ */
+
+const DEFAULT_DATA_DIR = path.join('public', 'data');
+
+type Build = { phones: PhoneBrandData; chart: ChartData };
+
+/**
+ * 读取一次构建：目录，或 git:<ref> 表示该提交中的 public/data
+ */
+function readBuild(source: string): Build | null {
+  const read = (file: string): string | null => {
+    if (source.startsWith('git:')) {
+      const ref = source.slice('git:'.length) || 'HEAD';
+      try {
+        return execFileSync('git', ['show', `${ref}:${path.posix.join('public', 'data', file)}`], { encoding: 'utf8', stdio: ['ignore', 'pipe', 'ignore'], maxBuffer: 64 * 1024 * 1024 });
+      } catch {
+        return null;
+      }
+    }
+    const fullPath = path.join(source, file);
+    return fs.existsSync(fullPath) ? fs.readFileSync(fullPath, 'utf8') : null;
+  };
+
+  const phones = read(PHONES_FILE);
+  const chart = read(CHART_FILE);
+  if (phones === null || chart === null) return null;
+  return assertDataset(JSON.parse(phones), JSON.parse(chart));
+}
+
+function today(): string {
+  const now = new Date();
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+function main() {
+  const { values } = parseArgs({
+    options: {
+      from: { type: 'string', default: 'git:HEAD' },
+      to: { type: 'string', default: DEFAULT_DATA_DIR },
+      json: { type: 'boolean', default: false },
+      write: { type: 'boolean', short: 'w', default: false },
+      date: { type: 'string', default: today() }
+    }
+  });
+
+  const from = values.from as string;
+  const to = values.to as string;
+  const date = values.date as string;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    console.error(`❌ 无效的日期: ${date}，应为 YYYY-MM-DD`);
+    process.exit(1);
+  }
+
+  let previous: Build | null;
+  let next: Build | null;
+  try {
+    previous = readBuild(from);
+    next = readBuild(to);
+  } catch (error) {
+    console.error(`❌ ${error instanceof DatasetValidationError || error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+  if (!next) {
+    console.error(`❌ 找不到 ${to} 中的 ${PHONES_FILE} / ${CHART_FILE}`);
+    process.exit(1);
+  }
+  if (!previous) {
+    console.warn(`⚠️  找不到 ${from} 中的数据，所有机型视为新增`);
+  }
+
+  const changes = diffDatasets(previous, next);
+
+  if (values.json) {
+    console.log(JSON.stringify({ date, changes }, null, 2));
+  } else if (changes.length === 0) {
+    console.log(`✅ ${from} 与 ${to} 的数据没有差异`);
+  } else {
+    console.log(`📋 ${from} → ${to}：${changes.length} 台机型有变化`);
+    formatDiffReport(changes).forEach(line => console.log(line));
+  }
+
+  if (!values.write || changes.length === 0) return;
+  // 没有上一次构建时的差异是整个数据集，不是规格修正，不写入更新记录
+  if (!previous) {
+    console.warn(`⚠️  没有上一次构建，不写入 ${CHANGELOG_FILE}`);
+    return;
+  }
+
+  const changelogFile = path.join(to, CHANGELOG_FILE);
+  const changelog: Changelog = fs.existsSync(changelogFile)
+    ? assertChangelog(JSON.parse(fs.readFileSync(changelogFile, 'utf8')))
+    : { entries: [] };
+  changelog.entries.unshift({ date, changes });
+  fs.writeFileSync(changelogFile, JSON.stringify(changelog, null, 2), 'utf8');
+  console.log(`💾 已追加到 ${changelogFile}`);
+}
+
+main();
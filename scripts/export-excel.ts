@@ -0,0 +1,60 @@
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import * as XLSX from 'xlsx';
+import { buildWorkbook } from '../lib/workbook';
+import { assertDataset, CHART_FILE, DatasetValidationError, PHONES_FILE } from '../lib/schema';
+
+/**
+ * JSON -> Excel：把 public/data 中的数据按各品牌工作表的格式写回工作簿
+ *
+ * 用法：
+ *   npm run export-excel
+ *   npm run export-excel -- --in-dir ./public/data --output ./data/导出.xlsx
+ *   npm run export-excel -- --output ./data/各机型后置摄像头数据.xlsx --force   覆盖编辑维护的表格
+ */
+
+const DEFAULT_IN_DIR = path.join('public', 'data');
+const DEFAULT_OUTPUT = path.join('data', '各机型后置摄像头数据（导出）.xlsx');
+
+function main() {
+  const { values } = parseArgs({
+    options: {
+      'in-dir': { type: 'string', default: DEFAULT_IN_DIR },
+      output: { type: 'string', short: 'o', default: DEFAULT_OUTPUT },
+      force: { type: 'boolean', short: 'f', default: false }
+    }
+  });
+
+  const inDir = values['in-dir'] as string;
+  const output = values.output as string;
+  const phonesFile = path.join(inDir, PHONES_FILE);
+  const chartFile = path.join(inDir, CHART_FILE);
+
+  if (!fs.existsSync(phonesFile) || !fs.existsSync(chartFile)) {
+    console.error(`❌ 找不到 ${phonesFile} 或 ${chartFile}`);
+    process.exit(1);
+  }
+  if (fs.existsSync(output) && !values.force) {
+    console.error(`❌ ${output} 已存在，确认要覆盖请加 --force`);
+    process.exit(1);
+  }
+
+  let dataset;
+  try {
+    dataset = assertDataset(
+      JSON.parse(fs.readFileSync(phonesFile, 'utf8')),
+      JSON.parse(fs.readFileSync(chartFile, 'utf8'))
+    );
+  } catch (error) {
+    console.error(`❌ ${error instanceof DatasetValidationError || error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+
+  const workbook = buildWorkbook(dataset.phones, dataset.chart);
+  fs.mkdirSync(path.dirname(output), { recursive: true });
+  fs.writeFileSync(output, XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }));
+  console.log(`💾 已导出 ${dataset.chart.datasets.length} 台设备到 ${output}（${workbook.SheetNames.join('、')}）`);
+}
+
+main();